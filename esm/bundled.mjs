@@ -0,0 +1,5 @@
+// ESM entry point for the bundled dataset; see esm/index.mjs.
+import lib from "../dist/bundled.js";
+
+export * from "./index.mjs";
+export const { BUNDLED_DATA_PATH, getValidator, validate, normalise, format, lookup, explain, suggest, validatePartial, ranges } = lib;
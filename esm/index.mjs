@@ -0,0 +1,34 @@
+// ESM entry point. Re-exports the CommonJS build so both module systems share
+// one copy of the library (classifyUkNumber relies on `instanceof CompiledIndex`).
+import lib from "../dist/index.js";
+
+export const {
+  createValidator,
+  loadRuleIndex,
+  buildIndex,
+  classifyUkNumber,
+  lookupUkArea,
+  normaliseToUkNational,
+  normaliseUkInput,
+  Transformation,
+  explainUkNumber,
+  DecisionStep,
+  suggestUkNumber,
+  validatePartialUkNumber,
+  allocatedBlocks,
+  FilePortingSource,
+  PortingFileError,
+  withPorting,
+  normaliseProviderName,
+  providerDirectory,
+  formatUkNumber,
+  NumberClass,
+  NumberType,
+  NumberFormat,
+  TariffBand,
+  CompiledIndex,
+  compileIndex,
+  loadCompiledIndex,
+  parseArtifact,
+  readRulesFile,
+} = lib;
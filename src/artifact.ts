@@ -0,0 +1,94 @@
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+import type { OfcomSource, PrefixRule } from "./classifyUkNumber";
+
+/**
+ * Version of the prefixes.json layout. Bump when readers need to change;
+ * the service refuses any other version. Schema 1 was a bare rule array.
+ */
+export const SCHEMA_VERSION = 2;
+
+/** Provenance of one Ofcom CSV that went into a build. */
+export interface SourceFileInfo {
+  file: string;
+  source: OfcomSource;
+  sha256: string;
+  rowCount: number;
+  skippedRows: number; // rows rangeToRule could not turn into a rule
+}
+
+export interface DatasetMetadata {
+  schemaVersion: number;
+  builtAt: string;
+  sources: SourceFileInfo[];
+  skippedRows: number;
+  ruleCount: number;
+  checksum: string; // SHA-256 of the serialised rules
+}
+
+export interface DatasetArtifact extends DatasetMetadata {
+  rules: PrefixRule[];
+}
+
+export class ArtifactError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ArtifactError";
+  }
+}
+
+export function rulesChecksum(rules: PrefixRule[]): string {
+  return crypto.createHash("sha256").update(JSON.stringify(rules)).digest("hex");
+}
+
+export function createArtifact(rules: PrefixRule[], sources: SourceFileInfo[]): DatasetArtifact {
+  return {
+    schemaVersion: SCHEMA_VERSION,
+    builtAt: new Date().toISOString(),
+    sources,
+    skippedRows: sources.reduce((n, s) => n + s.skippedRows, 0),
+    ruleCount: rules.length,
+    checksum: rulesChecksum(rules),
+    rules,
+  };
+}
+
+/**
+ * Parse a prefixes.json. Legacy bare arrays come back as schema 1 without
+ * metadata so callers can decide whether to accept them; the current schema
+ * is checksum-verified.
+ */
+export function parseArtifact(raw: string): DatasetArtifact {
+  const parsed = JSON.parse(raw);
+  if (Array.isArray(parsed)) {
+    return {
+      schemaVersion: 1,
+      builtAt: "",
+      sources: [],
+      skippedRows: 0,
+      ruleCount: parsed.length,
+      checksum: "",
+      rules: parsed,
+    };
+  }
+
+  if (typeof parsed?.schemaVersion !== "number" || !Array.isArray(parsed.rules)) {
+    throw new ArtifactError("Not a prefixes.json dataset artifact");
+  }
+  if (parsed.schemaVersion === SCHEMA_VERSION) {
+    const checksum = rulesChecksum(parsed.rules);
+    if (checksum !== parsed.checksum) {
+      throw new ArtifactError(`Checksum mismatch: header says ${parsed.checksum}, rules hash to ${checksum}`);
+    }
+  }
+  return parsed as DatasetArtifact;
+}
+
+export function serialiseArtifact(artifact: DatasetArtifact): string {
+  return JSON.stringify(artifact, null, 2);
+}
+
+/** Read the rules from a prefixes.json of any schema version. */
+export function readRulesFile(filePath: string): PrefixRule[] {
+  return parseArtifact(fs.readFileSync(filePath, "utf8")).rules;
+}
@@ -0,0 +1,151 @@
+// bulk.ts
+// Row-at-a-time classification shared by the CLI and the bulk endpoints
+
+import { parse } from "csv-parse";
+import * as readline from "node:readline";
+import { Readable, Writable } from "node:stream";
+import { formatUkNumber, NumberFormat } from "./formatUkNumber";
+import {
+  classifyUkNumber,
+  normaliseUkInput,
+  NumberClass,
+  NumberType,
+  resultForUnnormalised,
+  RuleIndex,
+} from "./classifyUkNumber";
+import type { PortingSource } from "./porting";
+import { validationResponse, ValidationResponse } from "./responses";
+
+/** Fields added to each input row, in output order. */
+export const BULK_FIELDS = ["class", "national", "extension", "e164", "provider", "numberType", "countryCode"] as const;
+
+export interface BulkRecord {
+  class: NumberClass;
+  national: string | null;
+  extension: string | null;
+  e164: string | null;
+  provider: string | null;
+  numberType: NumberType | null;
+  countryCode: string | null; // NUMBER_NOT_UK only
+}
+
+export type InputRow = Record<string, string>;
+
+export function classifyInput(input: string, idx: RuleIndex): BulkRecord {
+  const normalised = normaliseUkInput(input);
+  const { national } = normalised;
+  const extension = normalised.extension ?? null;
+  if (!national) {
+    const result = resultForUnnormalised(normalised);
+    return { class: result.class, national: null, extension, e164: null, provider: null, numberType: null, countryCode: result.countryCode ?? null };
+  }
+  const result = classifyUkNumber(national, idx);
+  return {
+    class: result.class,
+    national,
+    extension,
+    // Only diallable numbers get an E.164 form, as with the service's `formatted`
+    e164: result.class === NumberClass.NUMBER_VALID ? formatUkNumber(national, NumberFormat.E164) : null,
+    provider: result.provider ?? null,
+    numberType: result.numberType ?? null,
+    countryCode: null,
+  };
+}
+
+export type BulkInputFormat = "csv" | "ndjson" | "text";
+
+/** One input record. Bad lines carry `error` instead of `number`. */
+export interface BulkLine {
+  line: number;       // 1-based line in the input (for CSV, where the record ends)
+  number?: string;
+  row?: InputRow;     // the whole record, for CSV rows and NDJSON objects
+  error?: string;
+}
+
+/**
+ * Records from a stream without buffering it, in one of three layouts:
+ * CSV with a header row, numbers taken from `column`; NDJSON, each line a
+ * string or an object with a `column` field; or plain text, one number per
+ * line. Blank lines are skipped. A CSV that cannot be parsed at all throws.
+ */
+export async function* readBulkInput(
+  input: Readable,
+  format: BulkInputFormat,
+  column = "number"
+): AsyncGenerator<BulkLine> {
+  if (format === "csv") {
+    const parser = input.pipe(parse({ columns: true, bom: true, info: true, skip_empty_lines: true, relax_column_count: true }));
+    for await (const { record, info } of parser as AsyncIterable<{ record: InputRow; info: { lines: number } }>) {
+      yield typeof record[column] === "string"
+        ? { line: info.lines, number: record[column], row: record }
+        : { line: info.lines, row: record, error: `Column "${column}" not found` };
+    }
+    return;
+  }
+
+  let line = 0;
+  for await (const text of readline.createInterface({ input, crlfDelay: Infinity })) {
+    line++;
+    const trimmed = text.trim();
+    if (!trimmed) continue;
+    if (format === "text") {
+      yield { line, number: trimmed };
+      continue;
+    }
+
+    let value: unknown;
+    try {
+      value = JSON.parse(trimmed);
+    } catch {
+      yield { line, error: "Invalid JSON" };
+      continue;
+    }
+    if (typeof value === "string") {
+      yield { line, number: value };
+    } else if (value && typeof value === "object" && typeof (value as InputRow)[column] === "string") {
+      yield { line, number: (value as InputRow)[column], row: value as InputRow };
+    } else {
+      yield { line, error: `Expected a string or an object with a string "${column}" field` };
+    }
+  }
+}
+
+export type BulkResultLine =
+  | { line: number; error: string }
+  | ({ line: number; input?: InputRow } & ValidationResponse);
+
+/** The NDJSON line written for one input record by /validate/bulk and by bulk jobs. */
+export function bulkResultLine(entry: BulkLine, index: RuleIndex, porting?: PortingSource): BulkResultLine {
+  if (entry.error !== undefined) return { line: entry.line, error: entry.error };
+  return { line: entry.line, ...(entry.row && { input: entry.row }), ...validationResponse(entry.number!, index, porting) };
+}
+
+/**
+ * Write with backpressure: waits for `drain` when the buffer is full.
+ * Resolves false once the destination has been closed (e.g. the client went away).
+ */
+export async function writeChunk(out: Writable, chunk: string): Promise<boolean> {
+  if (out.destroyed) return false;
+  if (!out.write(chunk)) {
+    await new Promise<void>(resolve => {
+      const done = () => {
+        out.off("drain", done);
+        out.off("close", done);
+        resolve();
+      };
+      out.on("drain", done);
+      out.on("close", done);
+    });
+  }
+  return !out.destroyed;
+}
+
+/** One CSV line, quoting fields that need it. */
+export function csvLine(values: unknown[]): string {
+  return values
+    .map(v => {
+      const s = v === null || v === undefined ? "" : String(v);
+      return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+    })
+    .join(",") + "\n";
+}
@@ -0,0 +1,56 @@
+// bundled.ts
+// Zero-setup entry point backed by the prefixes.idx shipped with the package:
+//   import { validate } from "uk-number-validator/bundled";
+
+import * as path from "node:path";
+import { AreaLookupResult } from "./classifyUkNumber";
+import { Explanation } from "./explain";
+import { NumberFormat } from "./formatUkNumber";
+import { createValidator, ValidationResult, Validator } from "./index";
+import { PartialResult } from "./partial";
+import { AllocatedBlock } from "./ranges";
+import { SuggestResult } from "./suggest";
+
+export * from "./index";
+
+// dist/bundled.js -> <package root>/prefixes.idx
+export const BUNDLED_DATA_PATH = path.join(__dirname, "..", "prefixes.idx");
+
+let bundled: Validator | null = null;
+
+/** The validator over the bundled dataset, loaded on first use. */
+export function getValidator(): Validator {
+  return (bundled ??= createValidator({ dataPath: BUNDLED_DATA_PATH }));
+}
+
+export function validate(input: string): ValidationResult {
+  return getValidator().validate(input);
+}
+
+export function normalise(input: string): string | null {
+  return getValidator().normalise(input);
+}
+
+export function format(input: string, style?: NumberFormat): string | null {
+  return getValidator().format(input, style);
+}
+
+export function lookup(input: string): AreaLookupResult | null {
+  return getValidator().lookup(input);
+}
+
+export function explain(input: string): Explanation {
+  return getValidator().explain(input);
+}
+
+export function suggest(input: string, limit?: number): SuggestResult {
+  return getValidator().suggest(input, limit);
+}
+
+export function validatePartial(input: string): PartialResult {
+  return getValidator().validatePartial(input);
+}
+
+export function ranges(prefix: string): Iterable<AllocatedBlock> {
+  return getValidator().ranges(prefix);
+}
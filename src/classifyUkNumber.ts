@@ -1,13 +1,61 @@
+import { CompiledIndex } from "./compiledIndex";
+import type { NormalisedInput } from "./normalise";
+import { TERRITORY_PREFIXES } from "./territories";
+import { TariffBand, tariffForRule } from "./tariffs";
+
+export { TariffBand } from "./tariffs";
+export { NormalisedInput, normaliseToUkNational, normaliseUkInput, Transformation } from "./normalise";
+
 
 export enum NumberClass {
   NUMBER_VALID = "NUMBER_VALID",
   NUMBER_INVALID = "NUMBER_INVALID",
   NUMBER_TOO_SHORT = "NUMBER_TOO_SHORT",
+  NUMBER_TOO_LONG = "NUMBER_TOO_LONG",       // matches an allocated block but has extra digits
+  NUMBER_PROTECTED = "NUMBER_PROTECTED",     // Ofcom drama/test ranges, e.g. 01632 960xxx, 07700 900xxx
+  NUMBER_RESERVED = "NUMBER_RESERVED",       // held back by Ofcom, not in use
+  NUMBER_QUARANTINED = "NUMBER_QUARANTINED", // recently withdrawn, not yet reallocatable
+  NUMBER_WITHDRAWN = "NUMBER_WITHDRAWN",
+  NUMBER_UNALLOCATED = "NUMBER_UNALLOCATED", // Free, Designated, Unavailable and similar
+  NUMBER_NOT_UK = "NUMBER_NOT_UK",           // written with another country's code, e.g. +1 212 555 0100
+}
+
+export enum NumberType {
+  GEOGRAPHIC = "GEOGRAPHIC",                      // S1: 01, 02
+  NON_GEOGRAPHIC = "NON_GEOGRAPHIC",              // S3: 03
+  CORPORATE = "CORPORATE",                        // S5: 055, 056
+  MOBILE = "MOBILE",                              // S7: 071-075, 077-079
+  PERSONAL = "PERSONAL",                          // S7: 070
+  PAGING = "PAGING",                              // S7: 076
+  FREEPHONE = "FREEPHONE",                        // S8: 080
+  SPECIAL_SERVICES = "SPECIAL_SERVICES",          // S8: 084, 087
+  PREMIUM_RATE = "PREMIUM_RATE",                  // S9: 09
+  EMERGENCY = "EMERGENCY",                        // 999, 112
+  HARMONISED_SERVICE = "HARMONISED_SERVICE",      // 116xxx harmonised services of social value
+  DIRECTORY_ENQUIRIES = "DIRECTORY_ENQUIRIES",    // 118xxx
+  SHORT_CODE = "SHORT_CODE",                      // other specials: 100, 101, 105, 111, 123, ...
+  ACCESS_CODE = "ACCESS_CODE",                    // S10: Type A/B/C carrier access codes
+  UNKNOWN = "UNKNOWN",
 }
 
+/** Jurisdiction a number is regulated in: Great Britain & NI or a Crown Dependency. */
+export type Territory = "GB" | "JE" | "GG" | "IM";
+
+/**
+ * Ofcom numbering sheet a rule was taken from. "NTNP" marks the short codes
+ * designated directly in the National Telephone Numbering Plan (see shortCodes.ts).
+ */
+export type OfcomSource = "S1" | "S3" | "S5" | "S7" | "S8" | "S9" | "S10AC" | "S10B" | "NTNP";
+
 export interface ClassificationResult {
   class: NumberClass;
   provider?: string;
+  numberType?: NumberType;
+  expectedLength?: number; // NUMBER_TOO_LONG only: digit count the matched block requires
+  territory?: Territory;
+  tariff?: TariffBand;     // service-charge category for 084/087/09/118, FREEPHONE for 080/116
+  freephone?: boolean;
+  countryCode?: string;    // NUMBER_NOT_UK only: the country code the input was written with
 }
 
 export interface PrefixRule {
@@ -15,115 +63,334 @@ export interface PrefixRule {
   totalLength: number;  // required total digit count for numbers under this prefix
   status: string;       // Ofcom status string
   provider?: string;    // CP Name (provider name)
+  source?: OfcomSource; // Ofcom sheet the rule came from
+  areaCode?: string;    // S1 only: national area code, e.g. "020", "0114"
+  locality?: string;    // S1 only: area name, e.g. "London", "Sheffield"
+  designation?: string; // S8/S9 only: Ofcom sub-range designation, e.g. "Premium rate services"
+}
+
+export interface AreaLookupResult {
+  areaCode: string;     // national area code including the trunk 0
+  localNumber: string;  // remaining digits after the area code
+  locality?: string;    // Ofcom area name
 }
 
 export interface PrefixIndex {
   children?: Map<string, PrefixIndex>;
   rules?: PrefixRule[];
+  territory?: Territory; // set where a Crown Dependency range starts
+  // Precomputed by buildIndex for the single-pass classifier
+  liveRules?: PrefixRule[];  // diallable rules at this node, in `rules` order
+  otherRules?: PrefixRule[]; // the remaining rules, in `rules` order
+  minLiveLength?: number;    // shortest diallable totalLength at or under this node
+  maxLiveLength?: number;    // longest diallable totalLength at or under this node
 }
 
+/** Either the in-memory trie from `buildIndex` or a compiled index loaded from disk. */
+export type RuleIndex = PrefixIndex | CompiledIndex;
+
 export function buildIndex(rules: PrefixRule[]): PrefixIndex {
   const root: PrefixIndex = { children: new Map() };
-  for (const r of rules) {
+  const nodeFor = (prefix: string) => {
     let node = root;
-    for (const d of r.prefix) {
+    for (const d of prefix) {
       if (!node.children!.has(d)) node.children!.set(d, { children: new Map() });
       node = node.children!.get(d)!;
     }
-    (node.rules ??= []).push(r);
+    return node;
+  };
+  for (const r of rules) {
+    (nodeFor(r.prefix).rules ??= []).push(r);
+  }
+  for (const t of TERRITORY_PREFIXES) {
+    nodeFor(t.prefix).territory = t.territory;
   }
+  summarise(root);
   return root;
 }
 
-export function normaliseToUkNational(input: string): string | null {
-  const digits = (input || "").replace(/\D+/g, "");
-  if (!digits) return null;
-
-  // 0044 and +44 handling
-  if (digits.startsWith("0044")) {
-    const rest = digits.slice(4);
-    if (!rest) return null;
-    return rest.startsWith("0") ? rest : "0" + rest;
+/** Split each node's rules by liveness and record the diallable lengths beneath it. */
+function summarise(node: PrefixIndex): void {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const r of node.rules ?? []) {
+    if (isLiveStatus(r.status)) {
+      (node.liveRules ??= []).push(r);
+      min = Math.min(min, r.totalLength);
+      max = Math.max(max, r.totalLength);
+    } else {
+      (node.otherRules ??= []).push(r);
+    }
   }
-  if (digits.startsWith("44")) {
-    const rest = digits.slice(2);
-    if (!rest) return null;
-    return rest.startsWith("0") ? rest : "0" + rest;
+  node.children?.forEach(child => {
+    summarise(child);
+    if (child.minLiveLength === undefined) return;
+    min = Math.min(min, child.minLiveLength);
+    max = Math.max(max, child.maxLiveLength!);
+  });
+  if (max >= 0) {
+    node.minLiveLength = min;
+    node.maxLiveLength = max;
   }
+}
 
-  // Type A/B/C access codes can start with '1'
-  if (digits.startsWith("1")) return digits;
+/** Infer the Ofcom sheet for rules built before `source` was recorded. */
+export function sourceForPrefix(prefix: string): OfcomSource | undefined {
+  if (prefix.startsWith("01") || prefix.startsWith("02")) return "S1";
+  if (prefix.startsWith("03")) return "S3";
+  if (prefix.startsWith("05")) return "S5";
+  if (prefix.startsWith("07")) return "S7";
+  if (prefix.startsWith("08")) return "S8";
+  if (prefix.startsWith("09")) return "S9";
+  if (prefix.startsWith("1") || prefix === "999") return "NTNP";
+  return undefined;
+}
 
-  // Otherwise require leading 0 in national format
-  if (!digits.startsWith("0")) return null;
+function shortCodeType(prefix: string, source: OfcomSource): NumberType {
+  if (prefix === "999" || prefix === "112") return NumberType.EMERGENCY;
+  if (prefix.startsWith("116")) return NumberType.HARMONISED_SERVICE;
+  if (prefix.startsWith("118")) return NumberType.DIRECTORY_ENQUIRIES;
+  return source === "NTNP" ? NumberType.SHORT_CODE : NumberType.ACCESS_CODE;
+}
 
-  return digits;
+export function numberTypeForRule(rule: PrefixRule): NumberType {
+  return numberTypeForPrefix(rule.prefix, rule.source);
 }
 
-export function classifyUkNumber(national: string, idx: PrefixIndex): ClassificationResult {
-  if (!national) return { class: NumberClass.NUMBER_INVALID };
+/** Number type for digits under `prefix`, from the sheet if known or else from the digits alone. */
+export function numberTypeForPrefix(prefix: string, source = sourceForPrefix(prefix)): NumberType {
+  switch (source) {
+    case "S1":
+      return NumberType.GEOGRAPHIC;
+    case "S3":
+      return NumberType.NON_GEOGRAPHIC;
+    case "S5":
+      return NumberType.CORPORATE;
+    case "S7":
+      // S7 covers personal numbering and paging as well as mobile
+      if (prefix.startsWith("070")) return NumberType.PERSONAL;
+      if (prefix.startsWith("076")) return NumberType.PAGING;
+      return NumberType.MOBILE;
+    case "S8":
+      return prefix.startsWith("080") ? NumberType.FREEPHONE : NumberType.SPECIAL_SERVICES;
+    case "S9":
+      return NumberType.PREMIUM_RATE;
+    case "S10AC":
+    case "S10B":
+    case "NTNP":
+      return shortCodeType(prefix, source);
+    default:
+      return NumberType.UNKNOWN;
+  }
+}
+
+/** Only Allocated and Allocated(Closed Range) blocks are structurally diallable. */
+export function isLiveStatus(status: string): boolean {
+  return /^(Allocated|Allocated\(Closed Range\))$/i.test(status.trim());
+}
+
+/** Map an Ofcom block status to the class reported for numbers in that block. */
+export function classForStatus(status: string): NumberClass {
+  if (isLiveStatus(status)) return NumberClass.NUMBER_VALID;
+  const s = status.trim().toLowerCase();
+  if (s.startsWith("protected")) return NumberClass.NUMBER_PROTECTED;
+  if (s.startsWith("reserved")) return NumberClass.NUMBER_RESERVED;
+  if (s.startsWith("quarantined")) return NumberClass.NUMBER_QUARANTINED;
+  if (s.startsWith("withdrawn")) return NumberClass.NUMBER_WITHDRAWN;
+  return NumberClass.NUMBER_UNALLOCATED;
+}
+
+/** Result for input that did not normalise: a foreign number, or not a number at all. */
+export function resultForUnnormalised(input: NormalisedInput): ClassificationResult {
+  return input.countryCode
+    ? { class: NumberClass.NUMBER_NOT_UK, countryCode: input.countryCode }
+    : { class: NumberClass.NUMBER_INVALID };
+}
+
+export function resultForRule(cls: NumberClass, rule: PrefixRule, territory: Territory): ClassificationResult {
+  const tariff = tariffForRule(rule);
+  return {
+    class: cls,
+    provider: rule.provider,
+    numberType: numberTypeForRule(rule),
+    territory,
+    tariff,
+    freephone: tariff === TariffBand.FREEPHONE
+  };
+}
+
+/** Visit each trie node on the path spelled by `national`, shallowest first. */
+export function walkPath(
+  national: string,
+  idx: RuleIndex,
+  visit: (rules: PrefixRule[], territory?: Territory) => void
+): void {
+  if (idx instanceof CompiledIndex) return idx.walk(national, visit);
 
   let node: PrefixIndex | undefined = idx;
-  let matchedRules: PrefixRule[] = [];
   for (let i = 0; i < national.length && node; i++) {
-    const d = national[i];
-    node = node.children?.get(d);
-    if (node?.rules?.length) matchedRules = matchedRules.concat(node.rules);
+    node = node.children?.get(national[i]);
+    if (node) visit(node.rules ?? [], node.territory);
   }
+}
+
+/**
+ * Classify a national number in one walk down either kind of index, using the
+ * liveness and diallable lengths precomputed for each node.
+ */
+export function classifyUkNumber(national: string, idx: RuleIndex): ClassificationResult {
+  if (!national) return { class: NumberClass.NUMBER_INVALID };
+  if (idx instanceof CompiledIndex) return classifyCompiled(national, idx);
 
   const len = national.length;
+  let territory: Territory = "GB";
+  // First diallable rule on the path, shallowest first, by how its length compares
+  let tooShort: PrefixRule | undefined;
+  let exact: PrefixRule | undefined;
+  let tooLong: PrefixRule | undefined;
+  // Deepest non-diallable rule of exactly this length
+  let blocked: PrefixRule | undefined;
 
-  if (matchedRules.length) {
-    const live = matchedRules.filter(r => /^(Allocated|Allocated\(Closed Range\))$/i.test(r.status));
+  let node: PrefixIndex = idx;
+  let depth = 0;
+  while (depth < len) {
+    const next = node.children?.get(national[depth]);
+    if (!next) break;
+    node = next;
+    depth++;
+    if (node.territory) territory = node.territory;
 
-    // Check for exact matches first (where prefix equals the full number)
-    const exactMatch = live.find(r => r.prefix === national);
-    if (exactMatch) {
-      return { 
-        class: NumberClass.NUMBER_VALID, 
-        provider: exactMatch.provider 
-      };
-    }
-    
-    // Check for prefix matches with correct length
-    const tooShortMatch = live.find(r => r.totalLength > len);
-    if (tooShortMatch) {
-      return { 
-        class: NumberClass.NUMBER_TOO_SHORT, 
-        provider: tooShortMatch.provider 
-      };
+    const live = node.liveRules;
+    if (live) {
+      for (let i = 0; i < live.length; i++) {
+        const r = live[i];
+        if (r.totalLength > len) tooShort ??= r;
+        else if (r.totalLength === len) exact ??= r;
+        else tooLong ??= r;
+      }
     }
-    
-    const validMatch = live.find(r => r.totalLength === len);
-    if (validMatch) {
-      return { 
-        class: NumberClass.NUMBER_VALID, 
-        provider: validMatch.provider 
-      };
+    const other = node.otherRules;
+    if (other) {
+      for (let i = 0; i < other.length; i++) {
+        if (other[i].totalLength === len) blocked = other[i];
+      }
     }
   }
+  const reachedEnd = depth === len;
 
-  if (existsRuleThatStartsWithDigits(national, idx)) {
-    return { class: NumberClass.NUMBER_TOO_SHORT };
+  // A diallable block whose prefix is the whole number wins outright
+  if (reachedEnd && node.liveRules) return resultForRule(NumberClass.NUMBER_VALID, node.liveRules[0], territory);
+  if (tooShort) return resultForRule(NumberClass.NUMBER_TOO_SHORT, tooShort, territory);
+  if (exact) return resultForRule(NumberClass.NUMBER_VALID, exact, territory);
+  if (tooLong) {
+    return { ...resultForRule(NumberClass.NUMBER_TOO_LONG, tooLong, territory), expectedLength: tooLong.totalLength };
   }
+  if (blocked) return resultForRule(classForStatus(blocked.status), blocked, territory);
+
+  // The number is the start of a longer diallable block
+  if (reachedEnd && node.maxLiveLength !== undefined) return { class: NumberClass.NUMBER_TOO_SHORT };
 
   return { class: NumberClass.NUMBER_INVALID };
 }
 
-function existsRuleThatStartsWithDigits(digits: string, idx: PrefixIndex): boolean {
-  let node: PrefixIndex | undefined = idx;
-  for (const d of digits) {
-    node = node?.children?.get(d);
-    if (!node) return false;
+/**
+ * The same walk over a compiled index. Rules are tracked by number and only
+ * the one reported is turned into an object.
+ */
+function classifyCompiled(national: string, idx: CompiledIndex): ClassificationResult {
+  const len = national.length;
+  let territory: Territory = "GB";
+  // Rule numbers as above, -1 for none, with the depth each was found at
+  let tooShort = -1;
+  let tooShortDepth = 0;
+  let exact = -1;
+  let exactDepth = 0;
+  let tooLong = -1;
+  let tooLongDepth = 0;
+  let blocked = -1;
+  let blockedDepth = 0;
+  // First diallable rule at the deepest node reached
+  let firstLive = -1;
+
+  let node = 0;
+  let depth = 0;
+  while (depth < len) {
+    const next = idx.child(node, national.charCodeAt(depth) - 48);
+    if (next < 0) break;
+    node = next;
+    depth++;
+    territory = idx.territoryAt(node) ?? territory;
+
+    firstLive = -1;
+    const end = idx.firstRule(node + 1);
+    for (let r = idx.firstRule(node); r < end; r++) {
+      const length = idx.ruleLength(r);
+      if (!idx.ruleIsLive(r)) {
+        if (length === len) {
+          blocked = r;
+          blockedDepth = depth;
+        }
+        continue;
+      }
+      if (firstLive < 0) firstLive = r;
+      if (length > len && tooShort < 0) {
+        tooShort = r;
+        tooShortDepth = depth;
+      } else if (length === len && exact < 0) {
+        exact = r;
+        exactDepth = depth;
+      } else if (length < len && tooLong < 0) {
+        tooLong = r;
+        tooLongDepth = depth;
+      }
+    }
   }
-  return hasDescendantRule(node);
-}
+  const reachedEnd = depth === len;
+  const rule = (r: number, at: number) => idx.ruleAt(r, national.slice(0, at));
 
-function hasDescendantRule(node?: PrefixIndex): boolean {
-  if (!node) return false;
-  if (node.rules?.length) return true;
-  for (const child of Array.from(node.children?.values() ?? [])) {
-    if (hasDescendantRule(child)) return true;
+  if (reachedEnd && firstLive >= 0) return resultForRule(NumberClass.NUMBER_VALID, rule(firstLive, len), territory);
+  if (tooShort >= 0) return resultForRule(NumberClass.NUMBER_TOO_SHORT, rule(tooShort, tooShortDepth), territory);
+  if (exact >= 0) return resultForRule(NumberClass.NUMBER_VALID, rule(exact, exactDepth), territory);
+  if (tooLong >= 0) {
+    return { ...resultForRule(NumberClass.NUMBER_TOO_LONG, rule(tooLong, tooLongDepth), territory), expectedLength: idx.ruleLength(tooLong) };
+  }
+  if (blocked >= 0) {
+    const r = rule(blocked, blockedDepth);
+    return resultForRule(classForStatus(r.status), r, territory);
   }
-  return false;
+
+  if (reachedEnd && idx.liveBelow(node)) return { class: NumberClass.NUMBER_TOO_SHORT };
+
+  return { class: NumberClass.NUMBER_INVALID };
+}
+
+/**
+ * Find the geographic area for a 01/02 number. Uses the deepest matched rule
+ * that carries an area code, so sub-area blocks win over their parent.
+ */
+export function lookupUkArea(national: string, idx: RuleIndex): AreaLookupResult | null {
+  if (!national) return null;
+
+  let areaRule: PrefixRule | undefined;
+  walkPath(national, idx, rules => {
+    const withArea = rules.find(r => r.areaCode && national.startsWith(r.areaCode));
+    if (withArea) areaRule = withArea;
+  });
+
+  if (!areaRule?.areaCode) return null;
+  return {
+    areaCode: areaRule.areaCode,
+    localNumber: national.slice(areaRule.areaCode.length),
+    locality: areaRule.locality,
+  };
+}
+
+/** Whether a diallable block starts with `digits` (or is `digits` itself). */
+export function existsRuleThatStartsWithDigits(digits: string, idx: RuleIndex): boolean {
+  if (idx instanceof CompiledIndex) return idx.hasLiveRuleUnder(digits);
+
+  let node: PrefixIndex | undefined = idx;
+  for (let i = 0; i < digits.length && node; i++) node = node.children?.get(digits[i]);
+  // buildIndex sets maxLiveLength only where a diallable rule sits at or under the node
+  return node?.maxLiveLength !== undefined;
 }
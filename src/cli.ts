@@ -0,0 +1,137 @@
+#!/usr/bin/env node
+// cli.ts
+// Validates numbers from stdin, a text file or a CSV column
+// Usage: uk-number [file|-] [--column=NAME] [--format=csv|json|ndjson] [--only=invalid|valid] [--data=PATH]
+
+import * as fs from "node:fs";
+import { Writable } from "node:stream";
+import { BUNDLED_DATA_PATH } from "./bundled";
+import { BULK_FIELDS, classifyInput, csvLine, readBulkInput, writeChunk } from "./bulk";
+import { loadRuleIndex } from "./index";
+import { NumberClass, RuleIndex } from "./classifyUkNumber";
+
+type OutputFormat = "csv" | "json" | "ndjson";
+
+interface CliOptions {
+  file?: string;
+  column?: string;
+  format: OutputFormat;
+  only?: "invalid" | "valid";
+  dataPath: string;
+}
+
+const USAGE = `Usage: uk-number [file|-] [options]
+
+Reads one number per line, or a CSV with --column, from a file or stdin.
+
+  --column=NAME              read numbers from this column of a CSV with a header row
+  --format=csv|json|ndjson   output format (default: csv for CSV input, ndjson otherwise)
+  --only=invalid|valid       only write rows that are (not) NUMBER_VALID
+  --data=PATH                prefixes.json or prefixes.idx (default: the bundled dataset)
+`;
+
+class UsageError extends Error {}
+
+function parseArgs(args: string[]): CliOptions {
+  const flags = new Map<string, string>();
+  const files: string[] = [];
+  for (const arg of args) {
+    const m = arg.match(/^--([a-z]+)=(.*)$/);
+    if (m) flags.set(m[1], m[2]);
+    else if (arg.startsWith("--") || files.length) throw new UsageError(`Unexpected argument "${arg}"`);
+    else files.push(arg);
+  }
+  for (const name of Array.from(flags.keys())) {
+    if (!["column", "format", "only", "data"].includes(name)) throw new UsageError(`Unknown option --${name}`);
+  }
+
+  const column = flags.get("column");
+  const format = flags.get("format") ?? (column ? "csv" : "ndjson");
+  if (format !== "csv" && format !== "json" && format !== "ndjson") throw new UsageError(`Unknown format "${format}"`);
+  const only = flags.get("only");
+  if (only !== undefined && only !== "invalid" && only !== "valid") throw new UsageError(`--only must be invalid or valid`);
+
+  return {
+    file: files[0] === "-" ? undefined : files[0],
+    column,
+    format,
+    only,
+    dataPath: flags.get("data") ?? BUNDLED_DATA_PATH,
+  };
+}
+
+function loadIndex(dataPath: string): RuleIndex {
+  if (!fs.existsSync(dataPath)) throw new UsageError(`Dataset ${dataPath} not found; pass --data=prefixes.json or prefixes.idx`);
+  return loadRuleIndex(dataPath);
+}
+
+/** Streams output rows in the chosen format; the CSV header comes from the first row. */
+function createWriter(format: OutputFormat, out: Writable) {
+  let rows = 0;
+  return {
+    async row(row: Record<string, unknown>): Promise<boolean> {
+      if (format === "ndjson") return writeChunk(out, JSON.stringify(row) + "\n");
+      if (format === "json") return writeChunk(out, (rows++ ? ",\n" : "[\n") + JSON.stringify(row));
+      if (!rows++) await writeChunk(out, csvLine(Object.keys(row)));
+      return writeChunk(out, csvLine(Object.values(row)));
+    },
+    async end(): Promise<void> {
+      if (format === "json") await writeChunk(out, rows ? "\n]\n" : "[]\n");
+    },
+  };
+}
+
+function summary(counts: Map<string, number>, total: number): string {
+  const lines = [`Processed ${total} numbers`];
+  for (const [cls, n] of Array.from(counts.entries()).sort((a, b) => b[1] - a[1])) {
+    lines.push(`  ${cls.padEnd(20)} ${String(n).padStart(10)}`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+export async function run(args: string[], stdin = process.stdin, stdout: Writable = process.stdout): Promise<Map<string, number>> {
+  const options = parseArgs(args);
+  const idx = loadIndex(options.dataPath);
+  const input = options.file ? fs.createReadStream(options.file) : stdin;
+  const writer = createWriter(options.format, stdout);
+
+  const counts = new Map<string, number>();
+  for await (const entry of readBulkInput(input, options.column ? "csv" : "text", options.column)) {
+    if (entry.error) throw new UsageError(`${entry.error} in the CSV header`);
+    const record = classifyInput(entry.number!, idx);
+    counts.set(record.class, (counts.get(record.class) ?? 0) + 1);
+
+    const valid = record.class === NumberClass.NUMBER_VALID;
+    if (options.only === "invalid" && valid) continue;
+    if (options.only === "valid" && !valid) continue;
+    const out: Record<string, unknown> = { ...(entry.row ?? { number: entry.number }) };
+    for (const f of BULK_FIELDS) out[f] = record[f];
+    await writer.row(out);
+  }
+  await writer.end();
+  return counts;
+}
+
+if (require.main === module) {
+  if (process.argv.includes("--help") || process.argv.includes("-h")) {
+    process.stdout.write(USAGE);
+    process.exit(0);
+  }
+
+  // A closed pipe (e.g. `| head`) just means the reader has seen enough
+  process.stdout.on("error", (error: NodeJS.ErrnoException) => {
+    if (error.code === "EPIPE") process.exit(0);
+    throw error;
+  });
+
+  run(process.argv.slice(2))
+    .then(counts => {
+      const total = Array.from(counts.values()).reduce((a, b) => a + b, 0);
+      process.stderr.write(summary(counts, total));
+    })
+    .catch(error => {
+      process.stderr.write(`uk-number: ${error instanceof Error ? error.message : String(error)}\n`);
+      if (error instanceof UsageError) process.stderr.write("\n" + USAGE);
+      process.exit(error instanceof UsageError ? 2 : 1);
+    });
+}
@@ -0,0 +1,347 @@
+// compiledIndex.ts
+// Serialised prefix trie for fast cold start: flat typed arrays plus a string table
+// Usage: node dist/compiledIndex.js [prefixes.json] [prefixes.idx]
+
+import * as fs from "node:fs";
+import { ArtifactError, parseArtifact } from "./artifact";
+import { buildIndex, isLiveStatus, OfcomSource, PrefixIndex, PrefixRule, Territory } from "./classifyUkNumber";
+import logger from "./logger";
+
+const MAGIC = "UKIX";
+export const INDEX_FORMAT_VERSION = 2;
+
+const HEADER_BYTES = 88; // magic, version, four counts, 64-char dataset checksum
+const NONE = 0xffffffff; // string index for an absent optional field
+
+// Per-rule string fields, in storage order
+const RULE_FIELDS = ["status", "provider", "source", "areaCode", "locality", "designation"] as const;
+
+const TERRITORIES: (Territory | undefined)[] = [undefined, "GB", "JE", "GG", "IM"];
+const TERRITORY_MASK = 0x07;
+const LIVE_BELOW = 0x08; // a diallable rule sits at this node or under it
+
+const NO_RULES: PrefixRule[] = [];
+
+interface Counts {
+  nodes: number;
+  rules: number;
+  strings: number;
+  stringBytes: number;
+}
+
+interface Layout {
+  childMask: number;
+  firstChild: number;
+  ruleStart: number;
+  flags: number;
+  minLive: number;
+  maxLive: number;
+  totalLength: number;
+  ruleFields: number;
+  stringOffsets: number;
+  stringData: number;
+  size: number;
+}
+
+const align4 = (n: number) => (n + 3) & ~3;
+
+function layoutFor(c: Counts): Layout {
+  const childMask = HEADER_BYTES;
+  const firstChild = align4(childMask + c.nodes * 2);
+  const ruleStart = firstChild + c.nodes * 4;
+  const flags = ruleStart + (c.nodes + 1) * 4;
+  const minLive = flags + c.nodes;
+  const maxLive = minLive + c.nodes;
+  const totalLength = align4(maxLive + c.nodes);
+  const ruleFields = align4(totalLength + c.rules);
+  const stringOffsets = ruleFields + c.rules * RULE_FIELDS.length * 4;
+  const stringData = stringOffsets + (c.strings + 1) * 4;
+  return { childMask, firstChild, ruleStart, flags, minLive, maxLive, totalLength, ruleFields, stringOffsets, stringData, size: stringData + c.stringBytes };
+}
+
+function bitCount(mask: number): number {
+  let n = 0;
+  for (; mask; mask &= mask - 1) n++;
+  return n;
+}
+
+/**
+ * Serialise a trie built by `buildIndex`. Nodes are numbered breadth first so
+ * the children of a node are contiguous; a 10-bit mask says which digits exist.
+ * `checksum` ties the index to the prefixes.json it was compiled from.
+ */
+export function compileIndex(idx: PrefixIndex, checksum = ""): Buffer {
+  const nodes: PrefixIndex[] = [idx];
+  const masks: number[] = [];
+  const firstChildren: number[] = [];
+  for (let i = 0; i < nodes.length; i++) {
+    let mask = 0;
+    firstChildren.push(nodes.length);
+    for (let d = 0; d <= 9; d++) {
+      const child = nodes[i].children?.get(String(d));
+      if (!child) continue;
+      mask |= 1 << d;
+      nodes.push(child);
+    }
+    if ((nodes[i].children?.size ?? 0) !== bitCount(mask)) {
+      throw new ArtifactError("Only digit prefixes can be compiled");
+    }
+    masks.push(mask);
+  }
+
+  // Children always come after their parent, so one backwards pass fills LIVE_BELOW
+  const flags = new Uint8Array(nodes.length);
+  for (let i = nodes.length - 1; i >= 0; i--) {
+    const territory = nodes[i].territory;
+    if (territory) flags[i] |= TERRITORIES.indexOf(territory);
+    let live = nodes[i].rules?.some(r => isLiveStatus(r.status)) ?? false;
+    for (let c = 0; c < bitCount(masks[i]) && !live; c++) {
+      live = (flags[firstChildren[i] + c] & LIVE_BELOW) !== 0;
+    }
+    if (live) flags[i] |= LIVE_BELOW;
+  }
+
+  const strings = new Map<string, number>();
+  const intern = (s?: string) => {
+    if (s === undefined) return NONE;
+    if (!strings.has(s)) strings.set(s, strings.size);
+    return strings.get(s)!;
+  };
+  const rules = nodes.flatMap(n => n.rules ?? []);
+  const fields = rules.map(r => RULE_FIELDS.map(f => intern(r[f])));
+  const encoded = Array.from(strings.keys()).map(s => Buffer.from(s, "utf8"));
+
+  const counts: Counts = {
+    nodes: nodes.length,
+    rules: rules.length,
+    strings: encoded.length,
+    stringBytes: encoded.reduce((n, b) => n + b.length, 0),
+  };
+  const layout = layoutFor(counts);
+  const buf = Buffer.alloc(layout.size);
+
+  buf.write(MAGIC, 0, "ascii");
+  buf.writeUInt32LE(INDEX_FORMAT_VERSION, 4);
+  buf.writeUInt32LE(counts.nodes, 8);
+  buf.writeUInt32LE(counts.rules, 12);
+  buf.writeUInt32LE(counts.strings, 16);
+  buf.writeUInt32LE(counts.stringBytes, 20);
+  buf.write(checksum.slice(0, 64), 24, "ascii");
+
+  const view = <T>(Type: new (b: ArrayBuffer, o: number, n: number) => T, offset: number, length: number) =>
+    new Type(buf.buffer, buf.byteOffset + offset, length);
+  view(Uint16Array, layout.childMask, counts.nodes).set(masks);
+  view(Uint32Array, layout.firstChild, counts.nodes).set(firstChildren);
+  view(Uint8Array, layout.flags, counts.nodes).set(flags);
+  // 0 where nothing diallable sits at or under the node
+  view(Uint8Array, layout.minLive, counts.nodes).set(nodes.map(n => n.minLiveLength ?? 0));
+  view(Uint8Array, layout.maxLive, counts.nodes).set(nodes.map(n => n.maxLiveLength ?? 0));
+
+  const ruleStart = view(Uint32Array, layout.ruleStart, counts.nodes + 1);
+  for (let i = 0; i < nodes.length; i++) ruleStart[i + 1] = ruleStart[i] + (nodes[i].rules?.length ?? 0);
+
+  view(Uint8Array, layout.totalLength, counts.rules).set(rules.map(r => r.totalLength));
+  view(Uint32Array, layout.ruleFields, counts.rules * RULE_FIELDS.length).set(fields.flat());
+
+  const stringOffsets = view(Uint32Array, layout.stringOffsets, counts.strings + 1);
+  let at = 0;
+  encoded.forEach((b, i) => {
+    b.copy(buf, layout.stringData + at);
+    at += b.length;
+    stringOffsets[i + 1] = at;
+  });
+
+  return buf;
+}
+
+/**
+ * Read-only view over a compiled index. The typed arrays point straight into
+ * the loaded buffer; rules are only turned into objects when a lookup hits them.
+ */
+export class CompiledIndex {
+  readonly checksum: string;
+  readonly nodeCount: number;
+  readonly ruleCount: number;
+
+  private readonly buf: Buffer;
+  private readonly childMask: Uint16Array;
+  private readonly firstChild: Uint32Array;
+  private readonly ruleStart: Uint32Array;
+  private readonly flags: Uint8Array;
+  private readonly minLive: Uint8Array;
+  private readonly maxLive: Uint8Array;
+  private readonly totalLength: Uint8Array;
+  private readonly ruleFields: Uint32Array;
+  private readonly stringOffsets: Uint32Array;
+  private readonly stringData: number;
+  private readonly strings: (string | undefined)[];
+  private readonly statusLive: Int8Array; // per string: 1 diallable status, -1 not, 0 not yet checked
+
+  constructor(data: Buffer) {
+    if (data.length < HEADER_BYTES || data.toString("ascii", 0, 4) !== MAGIC) {
+      throw new ArtifactError("Not a compiled prefix index");
+    }
+    const version = data.readUInt32LE(4);
+    if (version !== INDEX_FORMAT_VERSION) {
+      throw new ArtifactError(`Compiled index has format version ${version}, expected ${INDEX_FORMAT_VERSION}`);
+    }
+
+    // Typed array views need aligned offsets; buffers from readFileSync already are
+    if (data.byteOffset % 4 !== 0) {
+      const copy = Buffer.alloc(data.length);
+      data.copy(copy);
+      data = copy;
+    }
+
+    const counts: Counts = {
+      nodes: data.readUInt32LE(8),
+      rules: data.readUInt32LE(12),
+      strings: data.readUInt32LE(16),
+      stringBytes: data.readUInt32LE(20),
+    };
+    const layout = layoutFor(counts);
+    if (data.length !== layout.size) {
+      throw new ArtifactError(`Compiled index is ${data.length} bytes, header implies ${layout.size}`);
+    }
+
+    const at = (offset: number) => data.byteOffset + offset;
+    this.buf = data;
+    this.checksum = data.toString("ascii", 24, HEADER_BYTES).replace(/\0+$/, "");
+    this.nodeCount = counts.nodes;
+    this.ruleCount = counts.rules;
+    this.childMask = new Uint16Array(data.buffer, at(layout.childMask), counts.nodes);
+    this.firstChild = new Uint32Array(data.buffer, at(layout.firstChild), counts.nodes);
+    this.ruleStart = new Uint32Array(data.buffer, at(layout.ruleStart), counts.nodes + 1);
+    this.flags = new Uint8Array(data.buffer, at(layout.flags), counts.nodes);
+    this.minLive = new Uint8Array(data.buffer, at(layout.minLive), counts.nodes);
+    this.maxLive = new Uint8Array(data.buffer, at(layout.maxLive), counts.nodes);
+    this.totalLength = new Uint8Array(data.buffer, at(layout.totalLength), counts.rules);
+    this.ruleFields = new Uint32Array(data.buffer, at(layout.ruleFields), counts.rules * RULE_FIELDS.length);
+    this.stringOffsets = new Uint32Array(data.buffer, at(layout.stringOffsets), counts.strings + 1);
+    this.stringData = layout.stringData;
+    this.strings = new Array(counts.strings);
+    this.statusLive = new Int8Array(counts.strings);
+  }
+
+  /** Node reached from `node` by `digit`, or -1. The root is node 0. */
+  child(node: number, digit: number): number {
+    const mask = this.childMask[node];
+    if (digit < 0 || digit > 9 || !(mask & (1 << digit))) return -1;
+    return this.firstChild[node] + bitCount(mask & ((1 << digit) - 1));
+  }
+
+  territoryAt(node: number): Territory | undefined {
+    return TERRITORIES[this.flags[node] & TERRITORY_MASK];
+  }
+
+  /** Rules stored at `node`; `prefix` is the path to it. */
+  rulesAt(node: number, prefix: string): PrefixRule[] {
+    const start = this.ruleStart[node];
+    const end = this.ruleStart[node + 1];
+    if (start === end) return NO_RULES;
+
+    const rules: PrefixRule[] = [];
+    for (let r = start; r < end; r++) rules.push(this.ruleAt(r, prefix));
+    return rules;
+  }
+
+  /** First rule number at `node`; its rules run up to firstRule(node + 1). */
+  firstRule(node: number): number {
+    return this.ruleStart[node];
+  }
+
+  ruleLength(rule: number): number {
+    return this.totalLength[rule];
+  }
+
+  /** isLiveStatus for rule number `rule`, checked once per distinct status string. */
+  ruleIsLive(rule: number): boolean {
+    const status = this.ruleFields[rule * RULE_FIELDS.length];
+    if (!this.statusLive[status]) this.statusLive[status] = isLiveStatus(this.string(status)!) ? 1 : -1;
+    return this.statusLive[status] === 1;
+  }
+
+  /** Rule number `rule` as an object; `prefix` is the path to its node. */
+  ruleAt(rule: number, prefix: string): PrefixRule {
+    const base = rule * RULE_FIELDS.length;
+    const result: PrefixRule = { prefix, totalLength: this.totalLength[rule], status: this.string(this.ruleFields[base])! };
+    const provider = this.string(this.ruleFields[base + 1]);
+    const source = this.string(this.ruleFields[base + 2]);
+    const areaCode = this.string(this.ruleFields[base + 3]);
+    const locality = this.string(this.ruleFields[base + 4]);
+    const designation = this.string(this.ruleFields[base + 5]);
+    if (provider !== undefined) result.provider = provider;
+    if (source !== undefined) result.source = source as OfcomSource;
+    if (areaCode !== undefined) result.areaCode = areaCode;
+    if (locality !== undefined) result.locality = locality;
+    if (designation !== undefined) result.designation = designation;
+    return result;
+  }
+
+  /** Visit each node on the path spelled by `digits`, shallowest first. */
+  walk(digits: string, visit: (rules: PrefixRule[], territory?: Territory) => void): void {
+    let node = 0;
+    for (let i = 0; i < digits.length; i++) {
+      node = this.child(node, digits.charCodeAt(i) - 48);
+      if (node < 0) return;
+      visit(this.rulesAt(node, digits.slice(0, i + 1)), this.territoryAt(node));
+    }
+  }
+
+  /** True if a diallable rule starts with `digits` (the path exists and has one at or under it). */
+  hasLiveRuleUnder(digits: string): boolean {
+    let node = 0;
+    for (let i = 0; i < digits.length && node >= 0; i++) {
+      node = this.child(node, digits.charCodeAt(i) - 48);
+    }
+    return node >= 0 && (this.flags[node] & LIVE_BELOW) !== 0;
+  }
+
+  /** True if a diallable rule sits at `node` or under it. */
+  liveBelow(node: number): boolean {
+    return (this.flags[node] & LIVE_BELOW) !== 0;
+  }
+
+  /** Shortest and longest diallable totalLength at or under the node for `digits`, as minLiveLength/maxLiveLength. */
+  liveLengthsUnder(digits: string): { min: number; max: number } | null {
+    let node = 0;
+    for (let i = 0; i < digits.length && node >= 0; i++) {
+      node = this.child(node, digits.charCodeAt(i) - 48);
+    }
+    return node >= 0 && this.maxLive[node] ? { min: this.minLive[node], max: this.maxLive[node] } : null;
+  }
+
+  private string(i: number): string | undefined {
+    if (i === NONE) return undefined;
+    let s = this.strings[i];
+    if (s === undefined) {
+      s = this.buf.toString("utf8", this.stringData + this.stringOffsets[i], this.stringData + this.stringOffsets[i + 1]);
+      this.strings[i] = s;
+    }
+    return s;
+  }
+}
+
+/** prefixes.json -> prefixes.idx */
+export function indexPathFor(rulesPath: string): string {
+  return rulesPath.replace(/\.json$/, "") + ".idx";
+}
+
+export function loadCompiledIndex(indexPath: string): CompiledIndex {
+  return new CompiledIndex(fs.readFileSync(indexPath));
+}
+
+function main() {
+  const [rulesPath = "prefixes.json", indexPath = indexPathFor(rulesPath)] = process.argv.slice(2);
+  const artifact = parseArtifact(fs.readFileSync(rulesPath, "utf8"));
+  const buf = compileIndex(buildIndex(artifact.rules), artifact.checksum);
+  fs.writeFileSync(indexPath, buf);
+  logger.info(
+    { rulesPath, indexPath, bytes: buf.length, ruleCount: artifact.rules.length },
+    `Wrote ${indexPath} (${buf.length} bytes)`
+  );
+}
+
+if (require.main === module) {
+  main();
+}
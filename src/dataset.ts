@@ -0,0 +1,120 @@
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+import { ArtifactError, DatasetMetadata, parseArtifact, SCHEMA_VERSION } from "./artifact";
+import {
+  buildIndex,
+  classifyUkNumber,
+  normaliseUkInput,
+  NumberClass,
+  PrefixIndex,
+  PrefixRule,
+  resultForUnnormalised,
+} from "./classifyUkNumber";
+
+/** A loaded rule set together with its index, ready to serve lookups. */
+export interface Dataset {
+  rules: PrefixRule[];
+  index: PrefixIndex;
+  version: string;   // content hash of the rules file
+  loadedAt: Date;
+  path: string;
+  metadata: DatasetMetadata;
+}
+
+/** A number whose class must not change between datasets. */
+export interface Canary {
+  number: string;
+  expected: NumberClass;
+}
+
+export interface DatasetChecks {
+  minRules: number;
+  canaries: Canary[];
+}
+
+export class DatasetValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DatasetValidationError";
+  }
+}
+
+export const DEFAULT_CANARIES: Canary[] = [
+  { number: "02080996910", expected: NumberClass.NUMBER_VALID },
+  { number: "000", expected: NumberClass.NUMBER_INVALID },
+];
+
+/**
+ * Read checks from the environment:
+ * MIN_RULE_COUNT (default 1000) and CANARY_NUMBERS ("02080996910=NUMBER_VALID,000=NUMBER_INVALID").
+ */
+export function checksFromEnv(env: NodeJS.ProcessEnv = process.env): DatasetChecks {
+  const minRules = env.MIN_RULE_COUNT ? parseInt(env.MIN_RULE_COUNT, 10) : 1000;
+  const canaries = env.CANARY_NUMBERS
+    ? env.CANARY_NUMBERS.split(",").map(pair => {
+        const [number, expected] = pair.split("=").map(s => s.trim());
+        if (!Object.values(NumberClass).includes(expected as NumberClass)) {
+          throw new Error(`Unknown class "${expected}" for canary ${number}`);
+        }
+        return { number, expected: expected as NumberClass };
+      })
+    : DEFAULT_CANARIES;
+  return { minRules, canaries };
+}
+
+/** Throws DatasetValidationError if the dataset fails a sanity check. */
+export function validateDataset(dataset: Dataset, checks: DatasetChecks): void {
+  if (dataset.rules.length < checks.minRules) {
+    throw new DatasetValidationError(
+      `Dataset has ${dataset.rules.length} rules, expected at least ${checks.minRules}`
+    );
+  }
+  for (const canary of checks.canaries) {
+    const normalised = normaliseUkInput(canary.number);
+    const actual = normalised.national
+      ? classifyUkNumber(normalised.national, dataset.index).class
+      : resultForUnnormalised(normalised).class;
+    if (actual !== canary.expected) {
+      throw new DatasetValidationError(
+        `Canary ${canary.number} classified as ${actual}, expected ${canary.expected}`
+      );
+    }
+  }
+}
+
+/** Short content hash identifying a rules file. */
+export function datasetVersion(raw: string): string {
+  return crypto.createHash("sha256").update(raw).digest("hex").slice(0, 12);
+}
+
+/**
+ * Load a rules file and build its index without touching any dataset in use.
+ * The caller swaps the result in once it has passed validation.
+ */
+export async function loadDataset(rulesPath: string, checks: DatasetChecks): Promise<Dataset> {
+  const raw = await fs.promises.readFile(rulesPath, "utf8");
+  let artifact;
+  try {
+    artifact = parseArtifact(raw);
+  } catch (error) {
+    if (error instanceof ArtifactError) throw new DatasetValidationError(`${rulesPath}: ${error.message}`);
+    throw error;
+  }
+  if (artifact.schemaVersion !== SCHEMA_VERSION) {
+    throw new DatasetValidationError(
+      `${rulesPath} has schema version ${artifact.schemaVersion}, expected ${SCHEMA_VERSION}. Rebuild it with 'yarn download'.`
+    );
+  }
+
+  const { rules, ...metadata } = artifact;
+  const dataset: Dataset = {
+    rules,
+    index: buildIndex(rules),
+    version: datasetVersion(raw),
+    loadedAt: new Date(),
+    path: rulesPath,
+    metadata,
+  };
+  validateDataset(dataset, checks);
+  return dataset;
+}
@@ -0,0 +1,174 @@
+// diff.ts
+// Compares two rule sets produced by download.ts
+// Usage: node dist/diff.js <before.json> <after.json> [--json]
+
+import { isLiveStatus, NumberType, numberTypeForRule, OfcomSource, PrefixRule, sourceForPrefix } from "./classifyUkNumber";
+import { readRulesFile } from "./artifact";
+import logger from "./logger";
+
+export interface BlockState {
+  status: string;
+  provider?: string;
+}
+
+export interface BlockChange {
+  prefix: string;
+  totalLength: number;
+  source?: OfcomSource;
+  numberType: NumberType;
+  before?: BlockState;  // absent for blocks new to the dataset
+  after?: BlockState;   // absent for blocks dropped from the dataset
+}
+
+export interface ChangeGroups {
+  allocated: BlockChange[];       // diallable now, not before
+  withdrawn: BlockChange[];       // diallable before, not now
+  providerChanges: BlockChange[]; // diallable in both, range holder changed
+  statusChanges: BlockChange[];   // any status transition, including the above
+}
+
+/** A block key held by more than one rule in a dataset, so its rules cannot be paired up. */
+export interface DuplicateBlock {
+  prefix: string;
+  totalLength: number;
+  source?: OfcomSource;
+  before: number;  // rules with this key in the old dataset
+  after: number;   // and in the new one
+}
+
+export interface DatasetDiff {
+  summary: Record<keyof ChangeGroups, number>;
+  byNumberType: Partial<Record<NumberType, ChangeGroups>>;
+  duplicates: DuplicateBlock[];  // left out of the groups above
+}
+
+const GROUPS: (keyof ChangeGroups)[] = ["allocated", "withdrawn", "providerChanges", "statusChanges"];
+
+// The same prefix and length can appear on more than one Ofcom sheet. Rules
+// from before `source` was recorded are keyed by the sheet their prefix implies.
+function blockKey(rule: PrefixRule): string {
+  return `${rule.source ?? sourceForPrefix(rule.prefix) ?? ""}|${rule.prefix}|${rule.totalLength}`;
+}
+
+function byBlock(rules: PrefixRule[]): Map<string, PrefixRule[]> {
+  const blocks = new Map<string, PrefixRule[]>();
+  for (const r of rules) {
+    const key = blockKey(r);
+    const existing = blocks.get(key);
+    if (existing) existing.push(r);
+    else blocks.set(key, [r]);
+  }
+  return blocks;
+}
+
+function stateOf(rule?: PrefixRule): BlockState | undefined {
+  return rule && { status: rule.status, provider: rule.provider || undefined };
+}
+
+export function diffRules(before: PrefixRule[], after: PrefixRule[]): DatasetDiff {
+  const oldBlocks = byBlock(before);
+  const newBlocks = byBlock(after);
+  const diff: DatasetDiff = {
+    summary: { allocated: 0, withdrawn: 0, providerChanges: 0, statusChanges: 0 },
+    byNumberType: {},
+    duplicates: [],
+  };
+
+  const record = (group: keyof ChangeGroups, change: BlockChange) => {
+    const groups = (diff.byNumberType[change.numberType] ??= {
+      allocated: [],
+      withdrawn: [],
+      providerChanges: [],
+      statusChanges: [],
+    });
+    groups[group].push(change);
+    diff.summary[group]++;
+  };
+
+  const keys = new Set([...Array.from(oldBlocks.keys()), ...Array.from(newBlocks.keys())]);
+  for (const key of Array.from(keys)) {
+    const wasAll = oldBlocks.get(key) ?? [];
+    const nowAll = newBlocks.get(key) ?? [];
+    const rule = nowAll[0] ?? wasAll[0];
+    if (wasAll.length > 1 || nowAll.length > 1) {
+      diff.duplicates.push({
+        prefix: rule.prefix,
+        totalLength: rule.totalLength,
+        ...(rule.source && { source: rule.source }),
+        before: wasAll.length,
+        after: nowAll.length,
+      });
+      continue;
+    }
+
+    const was = wasAll[0] as PrefixRule | undefined;
+    const now = nowAll[0] as PrefixRule | undefined;
+    const change: BlockChange = {
+      prefix: rule.prefix,
+      totalLength: rule.totalLength,
+      ...(rule.source && { source: rule.source }),
+      numberType: numberTypeForRule(rule),
+      before: stateOf(was),
+      after: stateOf(now),
+    };
+
+    const wasLive = !!was && isLiveStatus(was.status);
+    const isLive = !!now && isLiveStatus(now.status);
+    if (isLive && !wasLive) record("allocated", change);
+    if (wasLive && !isLive) record("withdrawn", change);
+    if (wasLive && isLive && (was!.provider ?? "").trim() !== (now!.provider ?? "").trim()) {
+      record("providerChanges", change);
+    }
+    if (was && now && was.status.trim() !== now.status.trim()) record("statusChanges", change);
+  }
+
+  return diff;
+}
+
+function describe(change: BlockChange): string {
+  const state = (s?: BlockState) => (s ? `${s.status}${s.provider ? ` (${s.provider})` : ""}` : "absent");
+  return `${change.prefix} [${change.totalLength} digits]: ${state(change.before)} -> ${state(change.after)}`;
+}
+
+/** Human-readable report, grouped by number type. */
+export function formatDiffReport(diff: DatasetDiff): string {
+  const lines = [
+    `Allocated: ${diff.summary.allocated}, withdrawn: ${diff.summary.withdrawn}, ` +
+      `provider changes: ${diff.summary.providerChanges}, status changes: ${diff.summary.statusChanges}`,
+  ];
+  for (const [numberType, groups] of Object.entries(diff.byNumberType)) {
+    lines.push("", numberType);
+    for (const group of GROUPS) {
+      if (!groups[group].length) continue;
+      lines.push(`  ${group} (${groups[group].length})`);
+      for (const change of groups[group]) lines.push(`    ${describe(change)}`);
+    }
+  }
+  if (diff.duplicates.length) {
+    lines.push("", `Not compared, block listed more than once (${diff.duplicates.length})`);
+    for (const d of diff.duplicates) {
+      lines.push(`    ${d.prefix} [${d.totalLength} digits]${d.source ? ` ${d.source}` : ""}: ${d.before} before, ${d.after} after`);
+    }
+  }
+  return lines.join("\n");
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const json = args.includes("--json");
+  const [beforePath, afterPath] = args.filter(a => !a.startsWith("--"));
+  if (!beforePath || !afterPath) {
+    logger.error("Usage: yarn diff <before.json> <after.json> [--json]");
+    process.exit(2);
+  }
+
+  const before = readRulesFile(beforePath);
+  const after = readRulesFile(afterPath);
+  const diff = diffRules(before, after);
+
+  process.stdout.write((json ? JSON.stringify(diff, null, 2) : formatDiffReport(diff)) + "\n");
+}
+
+if (require.main === module) {
+  main();
+}
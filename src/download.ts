@@ -1,56 +1,81 @@
 // download.ts
 // Downloads Ofcom CSV files and processes them into prefixes.json
-// Node 18+: `yarn add node-fetch@3 csv-parse@5`
+// Node 18+ (uses the global fetch): `yarn add csv-parse@5`
+// Runs as a script; `downloadRules` and friends can also be imported (see refresh.ts)
 
-import fetch from "node-fetch";
 import { parse } from "csv-parse/sync";
+import * as crypto from "node:crypto";
 import * as fs from "node:fs";
 import * as path from "node:path";
 import logger from "./logger";
+import { buildIndex, isLiveStatus, OfcomSource, PrefixRule } from "./classifyUkNumber";
+import { SHORT_CODE_RULES } from "./shortCodes";
+import { createArtifact, DatasetArtifact, serialiseArtifact, SourceFileInfo } from "./artifact";
+import { compileIndex } from "./compiledIndex";
 
 type CsvRow = Record<string, string>;
 
+export interface PullOptions {
+  noFetch?: boolean; // use the cached CSV if there is one
+  baseUrl?: string;  // defaults to Ofcom; point at a fixture server for offline tests
+  dataDir?: string;  // CSV cache directory, defaults to ./data
+}
+
+export interface PulledFile {
+  rows: CsvRow[];
+  sha256: string; // of the CSV exactly as downloaded
+}
+
+export interface DownloadOptions extends PullOptions {
+  compact?: boolean; // keep only diallable statuses
+  strict?: boolean;  // a sheet that cannot be pulled fails the download instead of being skipped
+}
+
 /**
  * Ofcom keeps stable file names; there’s usually a cache-busting `?v=` query.
  * We strip querystrings so this keeps working as they roll weekly updates.
  * Source index of files: https://www.ofcom.org.uk/phones-and-broadband/phone-numbers/numbering-data
  */
-const FILES = [
-  "s1.csv", // Geographic (01, 02)
-  "s3.csv", // 03 non-geographic
-  "s5.csv", // 055/056
-  "s7.csv", // 07 (070/071-079/076 etc.)
-  "s8.csv", // 08
-  "s9.csv", // 09
+export const FILES: { name: string; source: OfcomSource }[] = [
+  { name: "s1.csv", source: "S1" }, // Geographic (01, 02)
+  { name: "s3.csv", source: "S3" }, // 03 non-geographic
+  { name: "s5.csv", source: "S5" }, // 055/056
+  { name: "s7.csv", source: "S7" }, // 07 (070/071-079/076 etc.)
+  { name: "s8.csv", source: "S8" }, // 08
+  { name: "s9.csv", source: "S9" }, // 09
+  { name: "s10%20(type%20a%20and%20c).csv", source: "S10AC" }, // Type A and C access codes
+  { name: "s10%20(type%20b).csv", source: "S10B" }, // Type B access codes
 ];
 
-const BASE =
+export const BASE =
+  process.env.OFCOM_BASE_URL ||
   "https://www.ofcom.org.uk/siteassets/resources/documents/phones-telecoms-and-internet/information-for-industry/numbering/regular-updates/telephone-numbers/";
 
 const DATA_DIR = path.resolve(process.cwd(), "data");
 
-function tidyUrl(name: string) {
-  return BASE + name; // Names are already URL encoded
+function tidyUrl(name: string, baseUrl: string = BASE) {
+  return baseUrl + name; // Names are already URL encoded
 }
 
-function getCachedFilePath(name: string): string {
+function getCachedFilePath(name: string, dataDir: string = DATA_DIR): string {
   // Convert URL-encoded name back to normal filename for local storage
   const decodedName = decodeURIComponent(name);
-  return path.join(DATA_DIR, decodedName);
+  return path.join(dataDir, decodedName);
 }
 
-function ensureDataDir() {
-  if (!fs.existsSync(DATA_DIR)) {
-    fs.mkdirSync(DATA_DIR, { recursive: true });
+function ensureDataDir(dataDir: string = DATA_DIR) {
+  if (!fs.existsSync(dataDir)) {
+    fs.mkdirSync(dataDir, { recursive: true });
   }
 }
 
-/** Convert an Ofcom "Number Range" cell into {prefix, totalLength, provider}. */
-function rangeToRule(
+/** Convert an Ofcom "Number Range" cell into {prefix, totalLength, provider, source}. */
+export function rangeToRule(
   range: string,
   status: string,
-  provider?: string
-): { prefix: string; totalLength: number; status: string; provider?: string } | null {
+  provider: string | undefined,
+  source: OfcomSource
+): PrefixRule | null {
   if (!range) return null;
   
   // Handle new NMS Number Block format (e.g., "0207 946 0000", "3000 00")
@@ -58,6 +83,14 @@ function rangeToRule(
   const digits = range.replace(/\D+/g, "");
   if (!digits) return null;
 
+  // S10 access and short codes are dialled without a trunk 0: keep the digits
+  // as they stand, with any x's marking variable trailing digits
+  if (source === "S10AC" || source === "S10B") {
+    const m = range.toLowerCase().replace(/[^0-9x]/g, "").match(/^([0-9]+)(x*)$/);
+    if (!m) return null;
+    return { prefix: m[1], totalLength: m[1].length + m[2].length, status, provider, source };
+  }
+
   // For NMS Number Blocks, we need to include ALL specific number blocks
   // to properly detect invalid numbers, not just area codes
   
@@ -84,10 +117,10 @@ function rangeToRule(
       totalLength = nationalDigits.length;
     }
     
-    return { prefix: nationalDigits, totalLength, status, provider };
+    return { prefix: nationalDigits, totalLength, status, provider, source };
   } else if (digits.startsWith("1") && digits.length <= 6) {
     // Short codes: use the full number
-    return { prefix: digits, totalLength: digits.length, status, provider };
+    return { prefix: digits, totalLength: digits.length, status, provider, source };
   }
 
   // Fallback: try to parse as range format (e.g., "020 xxxx xxxx")
@@ -107,11 +140,23 @@ function rangeToRule(
   // The Ofcom entry already encodes total length via count of x's + prefix
   const totalLength = prefix.length + xCount;
 
-  return { prefix, totalLength, status, provider };
+  return { prefix, totalLength, status, provider, source };
 }
 
-async function pullOne(name: string, noFetch: boolean = false): Promise<CsvRow[]> {
-  const cachedFile = getCachedFilePath(name);
+/** Normalise an S1 area code cell ("20", "0114", "(01632)") to national format. */
+function toAreaCode(cell: string): string | undefined {
+  const digits = cell.replace(/\D+/g, "");
+  if (!digits) return undefined;
+  return digits.startsWith("0") ? digits : "0" + digits;
+}
+
+function sha256Hex(buf: Buffer): string {
+  return crypto.createHash("sha256").update(buf).digest("hex");
+}
+
+export async function pullOne(name: string, options: PullOptions = {}): Promise<PulledFile> {
+  const { noFetch = false, baseUrl = BASE, dataDir = DATA_DIR } = options;
+  const cachedFile = getCachedFilePath(name, dataDir);
   
   if (noFetch && fs.existsSync(cachedFile)) {
     logger.info({ fileName: name }, `Using cached ${name}...`);
@@ -123,16 +168,16 @@ async function pullOne(name: string, noFetch: boolean = false): Promise<CsvRow[]
       trim: true,
     });
     logger.info({ fileName: name, rowCount: rows.length }, `Loaded ${name} with ${rows.length} rows from cache`);
-    return rows;
+    return { rows, sha256: sha256Hex(buf) };
   }
   
   logger.info({ fileName: name }, `Downloading ${name}...`);
-  const res = await fetch(tidyUrl(name), { redirect: 'follow' });
+  const res = await fetch(tidyUrl(name, baseUrl), { redirect: 'follow' });
   if (!res.ok) throw new Error(`Fetch failed ${res.status} for ${name}`);
   const buf = await res.arrayBuffer();
   
   // Cache the downloaded file
-  ensureDataDir();
+  ensureDataDir(dataDir);
   fs.writeFileSync(cachedFile, Buffer.from(buf));
   logger.info({ fileName: name, cacheFile: cachedFile }, `Cached ${name} to ${cachedFile}`);
   
@@ -144,22 +189,23 @@ async function pullOne(name: string, noFetch: boolean = false): Promise<CsvRow[]
     trim: true,
   });
   logger.info({ fileName: name, rowCount: rows.length }, `Downloaded ${name} with ${rows.length} rows`);
-  return rows;
+  return { rows, sha256: sha256Hex(Buffer.from(buf)) };
 }
 
-(async () => {
-  // Parse command line arguments
-  const args = process.argv.slice(2);
-  const noFetch = args.includes('--no-fetch') || args.includes('-n');
-  
-  if (noFetch) {
-    logger.info("Running in no-fetch mode - using cached files only");
-  }
+/**
+ * Pull every Ofcom sheet and turn it into a versioned artifact of
+ * de-duplicated prefix rules, recording where each rule came from.
+ */
+export async function downloadRules(options: DownloadOptions = {}): Promise<DatasetArtifact> {
+  const { compact = false } = options;
 
-  const rules: { prefix: string; totalLength: number; status: string; provider?: string }[] = [];
-  for (const f of FILES) {
+  const rules: PrefixRule[] = [];
+  const sources: SourceFileInfo[] = [];
+  for (const { name: f, source } of FILES) {
     try {
-      const rows = await pullOne(f, noFetch);
+      const { rows, sha256 } = await pullOne(f, options);
+      const info: SourceFileInfo = { file: decodeURIComponent(f), source, sha256, rowCount: rows.length, skippedRows: 0 };
+      sources.push(info);
       for (const row of rows) {
         // Column names vary slightly across sheets; handle robustly:
         const range =
@@ -185,31 +231,89 @@ async function pullOne(name: string, noFetch: boolean = false): Promise<CsvRow[]
           row["Provider"] ??
           "";
 
-        const rule = rangeToRule(range, status, provider);
-        if (rule) {
-          // Only include diallable statuses to minimize prefixes.json
-          const isDiallable = /^(Allocated|Allocated\(Closed Range\))$/i.test(rule.status.trim());
-          if (isDiallable) rules.push(rule);
+        const rule = rangeToRule(range, status, provider, source);
+        if (!rule) info.skippedRows++;
+        if (rule && source === "S1") {
+          // S1 carries the area code and locality for every geographic block
+          const areaCode = toAreaCode(
+            row["Area Code"] ??
+            row["Area code"] ??
+            row["Dialling code"] ??
+            ""
+          );
+          const locality =
+            row["Area Name"] ??
+            row["Locality"] ??
+            row["Area"] ??
+            "";
+          if (areaCode) rule.areaCode = areaCode;
+          if (locality) rule.locality = locality;
         }
+        if (rule && (source === "S8" || source === "S9")) {
+          // Sub-range designations carry the service-charge category
+          const designation =
+            row["Designation"] ??
+            row["Sub-range Designation"] ??
+            row["Number Range Designation"] ??
+            row["Service Type"] ??
+            "";
+          if (designation) rule.designation = designation;
+        }
+        // Keep every status so protected/quarantined/etc. numbers can be told
+        // apart from garbage; --compact keeps only diallable statuses
+        if (rule && (!compact || isLiveStatus(rule.status))) rules.push(rule);
       }
     } catch (error) {
+      if (options.strict) {
+        throw new Error(`Could not pull ${decodeURIComponent(f)}: ${error instanceof Error ? error.message : error}`);
+      }
       logger.warn({ fileName: f, error }, `Skipping ${f}: ${error}`);
       continue;
     }
   }
 
-  // De-dup identical (prefix,totalLength,status,provider) rows
-  const uniq = new Map<string, (typeof rules)[number]>();
+  // Emergency, 116 and other specials are designated in the numbering plan, not the CSVs
+  rules.push(...SHORT_CODE_RULES);
+
+  // De-dup identical (prefix,totalLength,status,provider,source) rows
+  const uniq = new Map<string, PrefixRule>();
   for (const r of rules) {
-    uniq.set(`${r.prefix}|${r.totalLength}|${r.status}|${r.provider || ''}`, r);
+    uniq.set(`${r.prefix}|${r.totalLength}|${r.status}|${r.provider || ''}|${r.source}`, r);
+  }
+  return createArtifact(Array.from(uniq.values()), sources);
+}
+
+async function main() {
+  // Parse command line arguments
+  const args = process.argv.slice(2);
+  const noFetch = args.includes('--no-fetch') || args.includes('-n');
+  const compact = args.includes('--compact') || args.includes('-c');
+  
+  if (noFetch) {
+    logger.info("Running in no-fetch mode - using cached files only");
+  }
+  if (compact) {
+    logger.info("Running in compact mode - keeping diallable statuses only");
   }
-  const out = Array.from(uniq.values());
-
-  fs.writeFileSync("prefixes.json", JSON.stringify(out, null, 2));
-  logger.info({ ruleCount: out.length }, `Wrote prefixes.json with ${out.length} rules`);
-})().catch((e) => {
-  logger.error({ error: e }, 'Download process failed');
-  process.exit(1);
-});
+
+  const artifact = await downloadRules({ noFetch, compact });
+
+  fs.writeFileSync("prefixes.json", serialiseArtifact(artifact));
+  logger.info(
+    { ruleCount: artifact.ruleCount, skippedRows: artifact.skippedRows, schemaVersion: artifact.schemaVersion },
+    `Wrote prefixes.json with ${artifact.ruleCount} rules (${artifact.skippedRows} rows skipped)`
+  );
+
+  // Precompiled trie for consumers that cannot afford to parse and index the JSON
+  fs.writeFileSync("prefixes.idx", compileIndex(buildIndex(artifact.rules), artifact.checksum));
+  logger.info("Wrote prefixes.idx");
+}
+
+if (require.main === module) {
+  main().catch((e) => {
+    logger.error({ error: e }, 'Download process failed');
+    process.exit(1);
+  });
+}
 
 
@@ -0,0 +1,151 @@
+// explain.ts
+// Why a number got its class: the normalisation applied, every rule met on the
+// way down the trie, and the checks classifyUkNumber made in order
+
+import {
+  ClassificationResult,
+  classForStatus,
+  existsRuleThatStartsWithDigits,
+  isLiveStatus,
+  normaliseUkInput,
+  NumberClass,
+  OfcomSource,
+  PrefixRule,
+  resultForRule,
+  resultForUnnormalised,
+  RuleIndex,
+  Territory,
+  walkPath,
+} from "./classifyUkNumber";
+
+/** The checks classifyUkNumber makes, in the order it makes them. */
+export enum DecisionStep {
+  EXACT_MATCH = "EXACT_MATCH",             // a diallable block's prefix is the whole number
+  TOO_SHORT = "TOO_SHORT",                 // a diallable block needs more digits
+  LENGTH_MATCH = "LENGTH_MATCH",           // a diallable block has exactly this many digits
+  TOO_LONG = "TOO_LONG",                   // a diallable block needs fewer digits
+  STATUS_MATCH = "STATUS_MATCH",           // a non-diallable block has exactly this many digits
+  DESCENDANT_EXISTS = "DESCENDANT_EXISTS", // a diallable block starts with the whole number
+}
+
+export interface ExplainedRule {
+  prefix: string;
+  totalLength: number;
+  status: string;
+  class: NumberClass;   // what a number in this block is reported as
+  provider?: string;
+  source?: OfcomSource;
+}
+
+export interface RejectedRule extends ExplainedRule {
+  reason: string;
+}
+
+export interface DecisionCheck {
+  step: DecisionStep;
+  matched: boolean;
+  prefix?: string;      // the rule that decided it, when there is one
+}
+
+export interface Explanation {
+  input: string;
+  national: string | null;
+  normalisation: string[];
+  matched: ExplainedRule[];   // every rule on the trie path, shallowest first
+  rejected: RejectedRule[];   // the matched rules that did not decide the result
+  decision: DecisionCheck[];  // checks made until one matched; empty if normalisation failed
+  result: ClassificationResult;
+}
+
+function explainRule(rule: PrefixRule): ExplainedRule {
+  return {
+    prefix: rule.prefix,
+    totalLength: rule.totalLength,
+    status: rule.status,
+    class: classForStatus(rule.status),
+    ...(rule.provider && { provider: rule.provider }),
+    ...(rule.source && { source: rule.source }),
+  };
+}
+
+/** Why a rule on the path was passed over in favour of `decisive`. */
+function rejectionReason(rule: PrefixRule, len: number, decisive?: PrefixRule): string {
+  if (!isLiveStatus(rule.status)) {
+    if (rule.totalLength !== len) {
+      return `Status "${rule.status}" is not diallable and the block has ${rule.totalLength} digits, not ${len}`;
+    }
+    return decisive && isLiveStatus(decisive.status)
+      ? `Status "${rule.status}" is not diallable; diallable block ${decisive.prefix} takes precedence`
+      : `Superseded by the more specific block ${decisive?.prefix}`;
+  }
+  // Every diallable rule passes one of the length checks, so one of them decided
+  return `Block has ${rule.totalLength} digits, number has ${len}; ${decisive?.prefix} was matched by an earlier check`;
+}
+
+/**
+ * Classify `input` as the service does, recording why. Follows the same
+ * order of checks as classifyUkNumber, and gives the same result on either
+ * kind of index (the differential test holds it to that).
+ */
+export function explainUkNumber(input: string, idx: RuleIndex): Explanation {
+  const normalisation: string[] = [];
+  const normalised = normaliseUkInput(input, normalisation);
+  const { national } = normalised;
+  if (!national) {
+    return {
+      input,
+      national: null,
+      normalisation,
+      matched: [],
+      rejected: [],
+      decision: [],
+      result: resultForUnnormalised(normalised),
+    };
+  }
+
+  let path: PrefixRule[] = [];
+  let territory: Territory = "GB";
+  walkPath(national, idx, (rules, t) => {
+    if (rules.length) path = path.concat(rules);
+    if (t) territory = t;
+  });
+
+  const len = national.length;
+  const live = path.filter(r => isLiveStatus(r.status));
+  const decision: DecisionCheck[] = [];
+  const check = (step: DecisionStep, rule?: PrefixRule) => {
+    decision.push({ step, matched: !!rule, ...(rule && { prefix: rule.prefix }) });
+    return rule;
+  };
+
+  let decisive: PrefixRule | undefined;
+  let result: ClassificationResult;
+  if ((decisive = check(DecisionStep.EXACT_MATCH, live.find(r => r.prefix === national)))) {
+    result = resultForRule(NumberClass.NUMBER_VALID, decisive, territory);
+  } else if ((decisive = check(DecisionStep.TOO_SHORT, live.find(r => r.totalLength > len)))) {
+    result = resultForRule(NumberClass.NUMBER_TOO_SHORT, decisive, territory);
+  } else if ((decisive = check(DecisionStep.LENGTH_MATCH, live.find(r => r.totalLength === len)))) {
+    result = resultForRule(NumberClass.NUMBER_VALID, decisive, territory);
+  } else if ((decisive = check(DecisionStep.TOO_LONG, live.find(r => r.totalLength < len)))) {
+    result = { ...resultForRule(NumberClass.NUMBER_TOO_LONG, decisive, territory), expectedLength: decisive.totalLength };
+  } else if ((decisive = check(DecisionStep.STATUS_MATCH, path.filter(r => r.totalLength === len).pop()))) {
+    // The deepest non-diallable block of this length; any diallable one was found above
+    result = resultForRule(classForStatus(decisive.status), decisive, territory);
+  } else {
+    const descendant = existsRuleThatStartsWithDigits(national, idx);
+    decision.push({ step: DecisionStep.DESCENDANT_EXISTS, matched: descendant });
+    result = { class: descendant ? NumberClass.NUMBER_TOO_SHORT : NumberClass.NUMBER_INVALID };
+  }
+
+  return {
+    input,
+    national,
+    normalisation,
+    matched: path.map(explainRule),
+    rejected: path
+      .filter(r => r !== decisive)
+      .map(r => ({ ...explainRule(r), reason: rejectionReason(r, len, decisive) })),
+    decision,
+    result,
+  };
+}
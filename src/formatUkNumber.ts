@@ -0,0 +1,69 @@
+import { lookupUkArea, RuleIndex } from "./classifyUkNumber";
+
+export enum NumberFormat {
+  E164 = "E164",                   // +442079460000
+  INTERNATIONAL = "INTERNATIONAL", // +44 20 7946 0000
+  NATIONAL = "NATIONAL",           // 020 7946 0000
+}
+
+// Six-digit "mixed" area codes, used when no index is available to look them up
+const SIX_DIGIT_AREA_CODES = new Set([
+  "013873", "015242", "015394", "015395", "015396", "016973",
+  "016974", "016977", "017683", "017684", "017687", "019467",
+]);
+
+/** Length of the area code (including the trunk 0) for a geographic number. */
+function geographicAreaCodeLength(national: string, idx?: RuleIndex): number {
+  const area = idx ? lookupUkArea(national, idx) : null;
+  if (area) return area.areaCode.length;
+
+  if (national.startsWith("02")) return 3;
+  // 011x and 01x1 are the large-city four-digit codes
+  if (national[2] === "1" || national[3] === "1") return 4;
+  if (SIX_DIGIT_AREA_CODES.has(national.slice(0, 6))) return 6;
+  return 5;
+}
+
+/** Split a national number into its conventional display groups. */
+function groupNational(national: string, idx?: RuleIndex): string[] {
+  if (!national.startsWith("0") || national.length < 7) return [national];
+
+  if (national.startsWith("01") || national.startsWith("02")) {
+    const areaLength = geographicAreaCodeLength(national, idx);
+    const area = national.slice(0, areaLength);
+    const local = national.slice(areaLength);
+    if (areaLength === 3 && local.length === 8) return [area, local.slice(0, 4), local.slice(4)];
+    if (areaLength === 4 && local.length === 7) return [area, local.slice(0, 3), local.slice(3)];
+    return [area, local];
+  }
+
+  if (national.length !== 11) return [national.slice(0, 4), national.slice(4)];
+
+  // 07xxx xxxxxx
+  if (national.startsWith("07")) return [national.slice(0, 5), national.slice(5)];
+  // 05x xxxx xxxx
+  if (national.startsWith("05")) return [national.slice(0, 3), national.slice(3, 7), national.slice(7)];
+  // 03xx, 08xx and 09xx: 0xxx xxx xxxx
+  return [national.slice(0, 4), national.slice(4, 7), national.slice(7)];
+}
+
+/**
+ * Format a national-format number for display. Geographic numbers are grouped
+ * by their area code, taken from the prefix index when one is supplied.
+ * Numbers without a trunk 0 (short codes) are returned unchanged.
+ */
+export function formatUkNumber(national: string, style: NumberFormat, idx?: RuleIndex): string {
+  if (!national.startsWith("0")) return national;
+
+  switch (style) {
+    case NumberFormat.E164:
+      return "+44" + national.slice(1);
+    case NumberFormat.INTERNATIONAL: {
+      const groups = groupNational(national, idx);
+      groups[0] = groups[0].slice(1);
+      return ["+44", ...groups].join(" ");
+    }
+    case NumberFormat.NATIONAL:
+      return groupNational(national, idx).join(" ");
+  }
+}
@@ -0,0 +1,125 @@
+// index.ts
+// Library entry point: createValidator plus the lower-level building blocks
+
+import { readRulesFile } from "./artifact";
+import { loadCompiledIndex } from "./compiledIndex";
+import { Explanation, explainUkNumber } from "./explain";
+import { PartialResult, validatePartialUkNumber } from "./partial";
+import { PortingSource, ProviderAttribution, withPorting } from "./porting";
+import { AllocatedBlock, allocatedBlocks } from "./ranges";
+import { SuggestResult, suggestUkNumber } from "./suggest";
+import { formatUkNumber, NumberFormat } from "./formatUkNumber";
+import {
+  AreaLookupResult,
+  buildIndex,
+  ClassificationResult,
+  classifyUkNumber,
+  lookupUkArea,
+  normaliseToUkNational,
+  normaliseUkInput,
+  NumberClass,
+  PrefixRule,
+  resultForUnnormalised,
+  RuleIndex,
+  Transformation,
+} from "./classifyUkNumber";
+
+export {
+  AreaLookupResult,
+  buildIndex,
+  ClassificationResult,
+  classifyUkNumber,
+  lookupUkArea,
+  NormalisedInput,
+  normaliseToUkNational,
+  normaliseUkInput,
+  NumberClass,
+  NumberType,
+  OfcomSource,
+  PrefixIndex,
+  PrefixRule,
+  RuleIndex,
+  TariffBand,
+  Territory,
+  Transformation,
+} from "./classifyUkNumber";
+export { formatUkNumber, NumberFormat } from "./formatUkNumber";
+export { CompiledIndex, compileIndex, loadCompiledIndex } from "./compiledIndex";
+export { DecisionCheck, DecisionStep, ExplainedRule, Explanation, explainUkNumber, RejectedRule } from "./explain";
+export { Edit, EditType, Suggestion, SuggestResult, suggestUkNumber } from "./suggest";
+export { PartialResult, validatePartialUkNumber } from "./partial";
+export {
+  FilePortingSource,
+  PortingFileError,
+  PortingRecord,
+  PortingSource,
+  ProviderAttribution,
+  ProviderSource,
+  withPorting,
+} from "./porting";
+export { AllocatedBlock, allocatedBlocks } from "./ranges";
+export { normaliseProviderName, providerDirectory, ProviderDirectory, ProviderEntry, ProviderRange } from "./providers";
+export { DatasetArtifact, DatasetMetadata, parseArtifact, readRulesFile } from "./artifact";
+
+/**
+ * Where the validator gets its data: a rule array, or a path to a prefixes.json
+ * or a compiled prefixes.idx (see `yarn build:index`). `porting`, if given,
+ * supplies the current provider of ported numbers.
+ */
+export type ValidatorOptions = ({ rules: PrefixRule[] } | { dataPath: string }) & { porting?: PortingSource };
+
+export interface ValidationResult extends ClassificationResult, Partial<ProviderAttribution> {
+  national: string | null; // null when the input is not a UK number at all
+  extension?: string;
+  transformations: Transformation[];
+  valid: boolean;
+}
+
+export interface Validator {
+  validate(input: string): ValidationResult;
+  normalise(input: string): string | null;
+  /** null when the input cannot be normalised to a UK number. */
+  format(input: string, style?: NumberFormat): string | null;
+  lookup(input: string): AreaLookupResult | null;
+  /** The normalisation, rules and checks behind `validate`'s result. */
+  explain(input: string): Explanation;
+  /** Valid numbers one edit away from an invalid or too-short input, best first. */
+  suggest(input: string, limit?: number): SuggestResult;
+  /** For input still being typed: whether it can become valid and how many digits are left. */
+  validatePartial(input: string): PartialResult;
+  /** Allocated blocks whose prefix starts with `prefix`, in prefix order, walked lazily. */
+  ranges(prefix: string): Iterable<AllocatedBlock>;
+}
+
+/** Index a prefixes.json, or load a compiled prefixes.idx as it stands. */
+export function loadRuleIndex(dataPath: string): RuleIndex {
+  return dataPath.endsWith(".idx") ? loadCompiledIndex(dataPath) : buildIndex(readRulesFile(dataPath));
+}
+
+export function createValidator(options: ValidatorOptions): Validator {
+  const idx = "rules" in options ? buildIndex(options.rules) : loadRuleIndex(options.dataPath);
+
+  return {
+    validate(input) {
+      const normalised = normaliseUkInput(input);
+      const { national, extension, transformations } = normalised;
+      const result = national
+        ? withPorting(classifyUkNumber(national, idx), national, options.porting)
+        : resultForUnnormalised(normalised);
+      return { ...result, national, ...(extension && { extension }), transformations, valid: result.class === NumberClass.NUMBER_VALID };
+    },
+    normalise: normaliseToUkNational,
+    format(input, style = NumberFormat.E164) {
+      const national = normaliseToUkNational(input);
+      return national ? formatUkNumber(national, style, idx) : null;
+    },
+    lookup(input) {
+      const national = normaliseToUkNational(input);
+      return national ? lookupUkArea(national, idx) : null;
+    },
+    explain: input => explainUkNumber(input, idx),
+    suggest: (input, limit) => suggestUkNumber(input, idx, limit),
+    validatePartial: input => validatePartialUkNumber(input, idx),
+    ranges: prefix => allocatedBlocks(prefix, idx),
+  };
+}
@@ -0,0 +1,68 @@
+// jobWorker.ts
+// Worker thread for bulk jobs: classifies a spooled upload into result.ndjson
+// with the same line format as POST /validate/bulk
+
+import * as fs from "node:fs";
+import { parentPort, workerData } from "node:worker_threads";
+import { bulkResultLine, readBulkInput, writeChunk } from "./bulk";
+import { Dataset, DatasetChecks, loadDataset } from "./dataset";
+import type { JobProgress, RunJobMessage, WorkerMessage } from "./jobs";
+import { FilePortingSource } from "./porting";
+
+const { rulesPath, portingPath, checks } = workerData as { rulesPath: string; portingPath?: string; checks: DatasetChecks };
+
+// Report progress this often
+const PROGRESS_LINES = 10000;
+
+let dataset: Dataset | null = null;
+let porting: FilePortingSource | undefined;
+let portingMtime = 0;
+
+function post(message: WorkerMessage): void {
+  parentPort!.postMessage(message);
+}
+
+async function run({ job, inputPath, resultPath, datasetVersion }: RunJobMessage): Promise<void> {
+  // Keep the dataset between jobs unless the service has moved to another one
+  if (!dataset || (datasetVersion && dataset.version !== datasetVersion)) {
+    dataset = await loadDataset(rulesPath, checks);
+  }
+  const { index } = dataset;
+  // Reload the porting feed only when the file has been replaced
+  if (portingPath) {
+    const { mtimeMs } = await fs.promises.stat(portingPath);
+    if (!porting || mtimeMs !== portingMtime) {
+      porting = await FilePortingSource.load(portingPath);
+      portingMtime = mtimeMs;
+    }
+  }
+
+  const input = fs.createReadStream(inputPath);
+  const output = fs.createWriteStream(resultPath);
+  const progress: JobProgress = { processed: 0, errors: 0, bytesRead: 0, counts: {} };
+
+  for await (const entry of readBulkInput(input, job.format, job.column)) {
+    // A CSV without the column fails the job rather than every line
+    if (job.format === "csv" && entry.error && !progress.processed) throw new Error(`${entry.error} in the CSV header`);
+    const line = bulkResultLine(entry, index, porting);
+    progress.processed++;
+    if ("error" in line) progress.errors++;
+    else progress.counts[line.result.class] = (progress.counts[line.result.class] ?? 0) + 1;
+    await writeChunk(output, JSON.stringify(line) + "\n");
+
+    if (progress.processed % PROGRESS_LINES === 0) {
+      progress.bytesRead = input.bytesRead;
+      post({ type: "progress", id: job.id, ...progress });
+    }
+  }
+  await new Promise<void>((resolve, reject) => output.end((error?: Error | null) => (error ? reject(error) : resolve())));
+
+  progress.bytesRead = input.bytesRead;
+  post({ type: "done", id: job.id, datasetVersion: dataset.version, ...progress });
+}
+
+parentPort!.on("message", (message: RunJobMessage) => {
+  run(message).catch(error =>
+    post({ type: "failed", id: message.job.id, error: error instanceof Error ? error.message : String(error) })
+  );
+});
@@ -0,0 +1,234 @@
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { Worker } from "node:worker_threads";
+import type { BulkInputFormat } from "./bulk";
+import type { DatasetChecks } from "./dataset";
+import logger from "./logger";
+import type { NumberClass } from "./classifyUkNumber";
+import { writeFileAtomic } from "./refresh";
+
+export type JobStatus = "queued" | "running" | "completed" | "failed";
+
+export interface JobProgress {
+  processed: number;  // input lines handled so far, including bad ones
+  errors: number;     // lines reported with an inline error
+  bytesRead: number;
+  counts: Partial<Record<NumberClass, number>>;
+}
+
+export interface JobState extends JobProgress {
+  id: string;
+  status: JobStatus;
+  format: BulkInputFormat;
+  column: string;
+  inputBytes: number;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  datasetVersion?: string;
+  error?: string;
+}
+
+export interface JobRunnerOptions {
+  dir: string;              // one sub-directory per job: job.json, input, result.ndjson
+  rulesPath: string;        // the prefixes.json the worker loads
+  portingPath?: string;     // porting feed the worker loads, if any
+  checks: DatasetChecks;
+  retentionHours: number;   // finished jobs older than this are deleted
+  /** Version of the dataset the service is serving, so the worker can match it. */
+  datasetVersion: () => string | undefined;
+}
+
+/** Messages from main thread to worker. */
+export interface RunJobMessage {
+  type: "run";
+  job: JobState;
+  inputPath: string;
+  resultPath: string;
+  datasetVersion?: string;
+}
+
+/** Messages from worker to main thread. */
+export type WorkerMessage =
+  | ({ type: "progress"; id: string } & JobProgress)
+  | ({ type: "done"; id: string; datasetVersion: string } & JobProgress)
+  | { type: "failed"; id: string; error: string };
+
+const JOB_ID = /^[0-9a-f-]{36}$/;
+
+/**
+ * Bulk validation jobs. Uploads are spooled to disk and classified one at a
+ * time by a worker thread, so /validate keeps answering while a job runs.
+ * Job state lives in job.json next to the input and result, and queued or
+ * interrupted jobs are picked up again after a restart.
+ */
+export class JobRunner {
+  private readonly queue: string[] = [];
+  private worker: Worker | null = null;
+  private current: JobState | null = null;
+  // job.json is only written from this thread, one write at a time
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private readonly options: JobRunnerOptions) {}
+
+  /** Recover jobs left by a previous run and prune old ones. */
+  async start(): Promise<void> {
+    await fs.promises.mkdir(this.options.dir, { recursive: true });
+    await this.prune();
+    const jobs = (await this.list()).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    for (const job of jobs) {
+      if (job.status !== "queued" && job.status !== "running") continue;
+      // An interrupted job starts again from the top
+      await this.save({ ...job, status: "queued", processed: 0, errors: 0, bytesRead: 0, counts: {} });
+      this.queue.push(job.id);
+    }
+    if (this.queue.length) logger.info({ jobs: this.queue.length }, `Resuming ${this.queue.length} bulk jobs`);
+    this.next();
+  }
+
+  /** Spool an upload to disk and queue it. */
+  async submit(input: Readable, format: BulkInputFormat, column: string): Promise<JobState> {
+    const id = crypto.randomUUID();
+    const jobDir = this.jobDir(id);
+    const inputPath = path.join(jobDir, "input");
+    await fs.promises.mkdir(jobDir, { recursive: true });
+    try {
+      await pipeline(input, fs.createWriteStream(inputPath));
+    } catch (error) {
+      await fs.promises.rm(jobDir, { recursive: true, force: true });
+      throw error;
+    }
+
+    const job: JobState = {
+      id,
+      status: "queued",
+      format,
+      column,
+      inputBytes: (await fs.promises.stat(inputPath)).size,
+      createdAt: new Date().toISOString(),
+      processed: 0,
+      errors: 0,
+      bytesRead: 0,
+      counts: {},
+    };
+    await this.save(job);
+    this.queue.push(id);
+    logger.info({ id, format, inputBytes: job.inputBytes }, "Queued bulk job");
+    this.next();
+    return job;
+  }
+
+  async get(id: string): Promise<JobState | null> {
+    if (!JOB_ID.test(id)) return null;
+    if (this.current?.id === id) return { ...this.current };
+    try {
+      return JSON.parse(await fs.promises.readFile(path.join(this.jobDir(id), "job.json"), "utf8"));
+    } catch {
+      return null;
+    }
+  }
+
+  resultPath(id: string): string {
+    return path.join(this.jobDir(id), "result.ndjson");
+  }
+
+  private jobDir(id: string): string {
+    return path.join(this.options.dir, id);
+  }
+
+  private async list(): Promise<JobState[]> {
+    const jobs = await Promise.all((await fs.promises.readdir(this.options.dir)).map(id => this.get(id)));
+    return jobs.filter((job): job is JobState => job !== null);
+  }
+
+  private async prune(): Promise<void> {
+    const cutoff = Date.now() - this.options.retentionHours * 60 * 60 * 1000;
+    for (const job of await this.list()) {
+      if (job.finishedAt && Date.parse(job.finishedAt) < cutoff) {
+        await fs.promises.rm(this.jobDir(job.id), { recursive: true, force: true });
+      }
+    }
+  }
+
+  private save(job: JobState): Promise<void> {
+    const snapshot = JSON.stringify(job, null, 2);
+    this.saving = this.saving
+      .then(() => writeFileAtomic(path.join(this.jobDir(job.id), "job.json"), snapshot))
+      .catch(error => logger.error({ error, id: job.id }, "Could not save bulk job state"));
+    return this.saving;
+  }
+
+  private next(): void {
+    if (this.current || !this.queue.length) return;
+    const id = this.queue.shift()!;
+    this.get(id)
+      .then(job => {
+        if (!job) throw new Error(`Job ${id} has no state on disk`);
+        this.current = { ...job, status: "running", startedAt: new Date().toISOString() };
+        this.save(this.current);
+
+        const message: RunJobMessage = {
+          type: "run",
+          job: this.current,
+          inputPath: path.join(this.jobDir(id), "input"),
+          resultPath: this.resultPath(id),
+          datasetVersion: this.options.datasetVersion(),
+        };
+        this.spawn().postMessage(message);
+      })
+      .catch(error => {
+        logger.error({ error, id }, "Bulk job failed to start");
+        this.finish({ status: "failed", error: error instanceof Error ? error.message : String(error) });
+      });
+  }
+
+  private spawn(): Worker {
+    if (this.worker) return this.worker;
+
+    const worker = new Worker(path.join(__dirname, "jobWorker.js"), {
+      workerData: { rulesPath: this.options.rulesPath, portingPath: this.options.portingPath, checks: this.options.checks },
+    });
+    worker.on("message", (message: WorkerMessage) => this.onMessage(message));
+    worker.on("error", error => logger.error({ error }, "Bulk job worker crashed"));
+    worker.on("exit", code => {
+      this.worker = null;
+      if (this.current) this.finish({ status: "failed", error: `Worker exited with code ${code}` });
+    });
+    // An idle worker should not keep the process alive
+    worker.unref();
+    this.worker = worker;
+    return worker;
+  }
+
+  private onMessage(message: WorkerMessage): void {
+    if (message.id !== this.current?.id) return;
+    switch (message.type) {
+      case "progress": {
+        const { type, id, ...progress } = message;
+        Object.assign(this.current, progress);
+        this.save(this.current);
+        return;
+      }
+      case "done": {
+        const { type, id, ...progress } = message;
+        logger.info({ id, processed: progress.processed, errors: progress.errors }, "Bulk job completed");
+        this.finish({ ...progress, status: "completed" });
+        return;
+      }
+      case "failed":
+        logger.error({ id: message.id, error: message.error }, "Bulk job failed");
+        this.finish({ status: "failed", error: message.error });
+        return;
+    }
+  }
+
+  private finish(changes: Partial<JobState>): void {
+    const job = this.current;
+    this.current = null;
+    if (job) this.save({ ...job, ...changes, finishedAt: new Date().toISOString() });
+    this.next();
+  }
+}
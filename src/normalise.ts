@@ -0,0 +1,167 @@
+// normalise.ts
+// From what people type to national-format digits: country codes, the trunk
+// "(0)", extensions and phonewords, recording each change made on the way
+
+export enum Transformation {
+  EXTENSION_EXTRACTED = "EXTENSION_EXTRACTED",   // "ext. 123", "x45" or "#12" moved to `extension`
+  PHONEWORD_CONVERTED = "PHONEWORD_CONVERTED",   // letters within the number dialled as on a keypad
+  FORMATTING_REMOVED = "FORMATTING_REMOVED",     // spaces, dashes, brackets, labels
+  COUNTRY_CODE_REMOVED = "COUNTRY_CODE_REMOVED", // +44, 0044 or 44
+  TRUNK_PREFIX_ADDED = "TRUNK_PREFIX_ADDED",     // 0 put back after +44
+}
+
+export interface NormalisedInput {
+  national: string | null;          // null when the input is not a UK number
+  countryCode?: string;             // the country code of a non-UK number, e.g. "1" for +1 212 555 0100
+  extension?: string;
+  transformations: Transformation[];
+}
+
+// An extension after the number: "ext 123", "extn. 123", "extension: 123", "x45", "#12"
+const EXTENSION = /^(.*?\d[\s)]*)(?:ext(?:ension|n)?\.?|x|#)\s*:?\s*(\d{1,6})\s*$/i;
+
+// E.161 keypad letters
+const KEYPAD = "22233344455566677778889999";
+
+// Digits in a UK number after the country code or trunk 0
+const MAX_SIGNIFICANT_DIGITS = 10;
+
+function significantDigits(text: string): number {
+  return text.replace(/\D+/g, "").replace(/^(?:00)?44/, "").replace(/^0/, "").length;
+}
+
+// Two-digit country codes (ITU-T E.164). 1 and 7 are the one-digit codes; every other code has three digits.
+const TWO_DIGIT_COUNTRY_CODES = new Set([
+  "20", "27", "30", "31", "32", "33", "34", "36", "39", "40", "41", "43", "44", "45", "46", "47", "48", "49",
+  "51", "52", "53", "54", "55", "56", "57", "58", "60", "61", "62", "63", "64", "65", "66",
+  "81", "82", "84", "86", "90", "91", "92", "93", "94", "95", "98",
+]);
+
+/** The country code at the start of an international number, or undefined if there is not a whole one. */
+function countryCodeOf(international: string): string | undefined {
+  if (/^[17]/.test(international)) return international[0];
+  if (TWO_DIGIT_COUNTRY_CODES.has(international.slice(0, 2))) return international.slice(0, 2);
+  return /^[2-9]\d\d/.test(international) ? international.slice(0, 3) : undefined;
+}
+
+/**
+ * Reduce an input to digits in national format. A number written with +
+ * or 00 and a country code other than 44 comes back with `countryCode` set
+ * and no `national`. Pass `steps` to have each decision recorded in it.
+ */
+export function normaliseUkInput(input: string, steps?: string[]): NormalisedInput {
+  const transformations: Transformation[] = [];
+  let text = input || "";
+  let extension: string | undefined;
+  const result = (national: string | null, countryCode?: string): NormalisedInput => ({
+    national,
+    ...(countryCode && { countryCode }),
+    ...(extension && { extension }),
+    transformations,
+  });
+
+  const ext = EXTENSION.exec(text);
+  if (ext) {
+    text = ext[1].trimEnd();
+    extension = ext[2];
+    transformations.push(Transformation.EXTENSION_EXTRACTED);
+    steps?.push(`Moved extension ${extension} to its own field`);
+  }
+
+  // Letters before the first digit are a label ("Tel:"). After it a word is a
+  // phoneword while it still fits in the number; one that does not is a
+  // trailing label ("020 8099 6910 Home"), and so is everything after it
+  const firstDigit = text.search(/\d/);
+  let phoneword = false;
+  let label = "";
+  if (firstDigit >= 0) {
+    const word = /[a-z]+/gi;
+    word.lastIndex = firstDigit;
+    for (let m = word.exec(text); m; m = word.exec(text)) {
+      if (significantDigits(text.slice(0, m.index)) + m[0].length > MAX_SIGNIFICANT_DIGITS) {
+        label = text.slice(m.index);
+        text = text.slice(0, m.index);
+        break;
+      }
+      const keyed = m[0].replace(/./g, c => KEYPAD[c.toUpperCase().charCodeAt(0) - 65]);
+      text = text.slice(0, m.index) + keyed + text.slice(m.index + keyed.length);
+      phoneword = true;
+    }
+  }
+  if (phoneword) {
+    transformations.push(Transformation.PHONEWORD_CONVERTED);
+    steps?.push(`Dialled letters as keypad digits: "${text.trim()}"`);
+  }
+  if (label) steps?.push(`Dropped the trailing label "${label.trim()}"`);
+
+  const digits = text.replace(/\D+/g, "");
+  const plus = text.slice(0, firstDigit < 0 ? text.length : firstDigit).includes("+");
+  if (label || /[^\d+]/.test(text)) {
+    transformations.push(Transformation.FORMATTING_REMOVED);
+    steps?.push(`Removed non-digit characters: "${text}" -> "${digits}"`);
+  }
+  if (!digits) {
+    steps?.push("Rejected: no digits left");
+    return result(null);
+  }
+
+  // Digits after the international prefix, for +, 00 and a bare 44
+  const international = plus ? digits : digits.startsWith("00") ? digits.slice(2) : digits.startsWith("44") ? digits : undefined;
+  if (international !== undefined && !international.startsWith("44")) {
+    const countryCode = countryCodeOf(international);
+    if (!countryCode) {
+      steps?.push(`Rejected: no country code after the international prefix`);
+      return result(null);
+    }
+    steps?.push(`Rejected: country code +${countryCode} is not the UK`);
+    return result(null, countryCode);
+  }
+
+  if (international !== undefined) {
+    const code = digits.length - international.length === 2 ? "0044" : plus ? "+44" : "44";
+    const rest = international.slice(2);
+    if (!rest) {
+      steps?.push(`Rejected: nothing after the ${code} country code`);
+      return result(null);
+    }
+    transformations.push(Transformation.COUNTRY_CODE_REMOVED);
+    if (rest.startsWith("0")) {
+      // "+44 (0)20 ..." writes out the trunk 0 that international callers skip
+      steps?.push(
+        /\(\s*0\s*\)/.test(text)
+          ? `Stripped the ${code} country code, keeping the trunk 0 written as "(0)": "${rest}"`
+          : `Stripped the ${code} country code, keeping the 0 that follows: "${rest}"`
+      );
+      return result(rest);
+    }
+    transformations.push(Transformation.TRUNK_PREFIX_ADDED);
+    steps?.push(`Replaced the ${code} country code with the trunk prefix 0: "0${rest}"`);
+    return result("0" + rest);
+  }
+
+  // Type A/B/C access codes can start with '1'
+  if (digits.startsWith("1")) {
+    steps?.push("Kept as dialled: starts with 1 (short code or access code)");
+    return result(digits);
+  }
+
+  // 999 is the only short code outside the 1xx range
+  if (digits === "999") {
+    steps?.push("Kept as dialled: emergency short code 999");
+    return result(digits);
+  }
+
+  // Otherwise require leading 0 in national format
+  if (!digits.startsWith("0")) {
+    steps?.push("Rejected: national numbers start with 0");
+    return result(null);
+  }
+
+  steps?.push("Kept as dialled: national format with a leading 0");
+  return result(digits);
+}
+
+/** National-format digits for `input`, or null if it is not a UK number. */
+export function normaliseToUkNational(input: string, steps?: string[]): string | null {
+  return normaliseUkInput(input, steps).national;
+}
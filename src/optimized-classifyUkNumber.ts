@@ -1 +1,5 @@
- 
\ No newline at end of file
+// optimized-classifyUkNumber.ts
+// The single-pass classifier lives in ./classifyUkNumber; this path re-exports
+// that module unchanged so imports of it keep working.
+
+export * from "./classifyUkNumber";
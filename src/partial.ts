@@ -0,0 +1,117 @@
+// partial.ts
+// As-you-type checks: can what has been typed so far still become a valid
+// number, and how many more digits does it need
+
+import { CompiledIndex } from "./compiledIndex";
+import { formatUkNumber, NumberFormat } from "./formatUkNumber";
+import {
+  classifyUkNumber,
+  isLiveStatus,
+  normaliseToUkNational,
+  NumberClass,
+  numberTypeForPrefix,
+  numberTypeForRule,
+  NumberType,
+  PrefixIndex,
+  PrefixRule,
+  RuleIndex,
+  walkPath,
+} from "./classifyUkNumber";
+
+export interface PartialResult {
+  input: string;
+  national: string | null;          // digits so far in national format; null until there are any
+  valid: boolean;                   // diallable as it stands
+  possible: boolean;                // valid now or after more digits
+  minRemaining: number | null;      // fewest more digits to a diallable number; null when not possible
+  maxRemaining: number | null;      // most more digits to a diallable number; null when not possible
+  numberType: NumberType | null;    // likeliest type, null while the digits do not say
+  formatHint: string | null;        // display layout of the longest possible number, e.g. "020 79XX XXXX"
+}
+
+// Part-way through typing +44 or 0044, before any national digits
+const COUNTRY_CODE_STARTS = ["", "4", "00", "004"];
+
+/** minLiveLength/maxLiveLength of the trie node spelled by `digits`. */
+function liveLengthsUnder(digits: string, idx: RuleIndex): { min: number; max: number } | null {
+  if (idx instanceof CompiledIndex) return idx.liveLengthsUnder(digits);
+
+  let node: PrefixIndex | undefined = idx;
+  for (let i = 0; i < digits.length && node; i++) node = node.children?.get(digits[i]);
+  return node?.maxLiveLength !== undefined ? { min: node.minLiveLength!, max: node.maxLiveLength } : null;
+}
+
+/** `national` padded to `length` and laid out for display, with the digits still to come as X. */
+function formatHint(national: string, length: number, idx: RuleIndex): string {
+  const padded = national + "0".repeat(Math.max(0, length - national.length));
+  let i = 0;
+  return formatUkNumber(padded, NumberFormat.NATIONAL, idx).replace(/\d/g, d => (i++ < national.length ? d : "X"));
+}
+
+/**
+ * Check an incomplete input. The possible lengths are those of the diallable
+ * blocks on the path so far (they cover longer numbers too) and of every
+ * diallable block under it, so NUMBER_TOO_SHORT becomes a digit count.
+ */
+export function validatePartialUkNumber(input: string, idx: RuleIndex): PartialResult {
+  const digits = (input || "").replace(/\D+/g, "");
+  if (COUNTRY_CODE_STARTS.includes(digits)) {
+    return {
+      input,
+      national: null,
+      valid: false,
+      possible: true,
+      minRemaining: null,
+      maxRemaining: null,
+      numberType: null,
+      formatHint: null,
+    };
+  }
+
+  // A bare country code stands for the trunk 0 the national digits will follow
+  const national = digits === "44" || digits === "0044" ? "0" : normaliseToUkNational(input);
+  const impossible: PartialResult = {
+    input,
+    national,
+    valid: false,
+    possible: false,
+    minRemaining: null,
+    maxRemaining: null,
+    numberType: null,
+    formatHint: null,
+  };
+  if (!national) return impossible;
+
+  const len = national.length;
+  let min = Infinity;
+  let max = -Infinity;
+  let deepest: PrefixRule | undefined;
+  walkPath(national, idx, rules => {
+    for (const r of rules) {
+      if (!isLiveStatus(r.status) || r.totalLength < len) continue;
+      min = Math.min(min, r.totalLength);
+      max = Math.max(max, r.totalLength);
+      deepest = r;
+    }
+  });
+  const below = liveLengthsUnder(national, idx);
+  if (below) {
+    min = Math.min(min, below.min);
+    max = Math.max(max, below.max);
+  }
+
+  const valid = classifyUkNumber(national, idx).class === NumberClass.NUMBER_VALID;
+  if (!valid && max < len) return impossible;
+
+  const numberType = deepest ? numberTypeForRule(deepest) : numberTypeForPrefix(national);
+  return {
+    input,
+    national,
+    valid,
+    possible: true,
+    minRemaining: Math.max(0, (valid ? len : min) - len),
+    maxRemaining: Math.max(0, max - len),
+    numberType: numberType === NumberType.UNKNOWN ? null : numberType,
+    formatHint: formatHint(national, Math.max(len, max), idx),
+  };
+}
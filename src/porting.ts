@@ -0,0 +1,110 @@
+// porting.ts
+// Who serves a number now: Ofcom records the range holder, a porting feed
+// records numbers that have since moved to another provider
+
+import { parse } from "csv-parse";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { ClassificationResult, normaliseToUkNational, NumberClass } from "./classifyUkNumber";
+
+export interface PortingRecord {
+  national: string;
+  provider: string;   // the provider now serving the number
+  portedAt?: string;  // as given by the feed
+}
+
+/**
+ * A per-number override of the Ofcom range holder. Lookups are synchronous so
+ * they fit the classification path; back it with anything that can answer
+ * from memory or a local database.
+ */
+export interface PortingSource {
+  readonly name: string;  // reported as `portingSource`
+  lookup(national: string): PortingRecord | undefined;
+}
+
+export type ProviderSource = "OFCOM_RANGE" | "PORTING";
+
+export interface ProviderAttribution {
+  rangeHolder?: string;      // the Ofcom range holder, as in `provider`
+  currentProvider?: string;  // who serves the number now
+  providerSource: ProviderSource;
+  portingSource?: string;    // PORTING only: the PortingSource's name
+  portedAt?: string;
+}
+
+export class PortingFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PortingFileError";
+  }
+}
+
+/**
+ * Porting records loaded from a CSV feed into memory. The header must name a
+ * `number` and a `provider` column; `ported_at` is optional. A number listed
+ * twice takes its last row, so a feed can be appended to.
+ */
+export class FilePortingSource implements PortingSource {
+  readonly name: string;
+
+  private constructor(
+    readonly filePath: string,
+    private readonly records: Map<string, PortingRecord>,
+    readonly skippedRows: number
+  ) {
+    this.name = `file:${path.basename(filePath)}`;
+  }
+
+  get size(): number {
+    return this.records.size;
+  }
+
+  lookup(national: string): PortingRecord | undefined {
+    return this.records.get(national);
+  }
+
+  static async load(filePath: string): Promise<FilePortingSource> {
+    const records = new Map<string, PortingRecord>();
+    let skipped = 0;
+    const parser = fs.createReadStream(filePath).pipe(parse({ columns: true, bom: true, skip_empty_lines: true, trim: true }));
+    for await (const row of parser as AsyncIterable<Record<string, string>>) {
+      if (!records.size && !skipped && (row.number === undefined || row.provider === undefined)) {
+        throw new PortingFileError(`${filePath} needs "number" and "provider" columns`);
+      }
+      const national = normaliseToUkNational(row.number);
+      if (!national || !row.provider) {
+        skipped++;
+        continue;
+      }
+      records.set(national, { national, provider: row.provider, ...(row.ported_at && { portedAt: row.ported_at }) });
+    }
+    return new FilePortingSource(filePath, records, skipped);
+  }
+}
+
+/**
+ * Add the range holder and current provider to a valid number's result,
+ * taking the current provider from `porting` when it lists the number.
+ * Other classes are returned as they are.
+ */
+export function withPorting<T extends ClassificationResult>(
+  result: T,
+  national: string,
+  porting?: PortingSource
+): T & Partial<ProviderAttribution> {
+  if (result.class !== NumberClass.NUMBER_VALID) return result;
+
+  const record = porting?.lookup(national);
+  if (!record) {
+    return { ...result, rangeHolder: result.provider, currentProvider: result.provider, providerSource: "OFCOM_RANGE" };
+  }
+  return {
+    ...result,
+    rangeHolder: result.provider,
+    currentProvider: record.provider,
+    providerSource: "PORTING",
+    portingSource: porting!.name,
+    ...(record.portedAt && { portedAt: record.portedAt }),
+  };
+}
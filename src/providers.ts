@@ -0,0 +1,128 @@
+// providers.ts
+// Directory of communications providers in a rule set, with the allocated
+// blocks each one holds
+
+import { isLiveStatus, numberTypeForRule, NumberType, OfcomSource, PrefixRule } from "./classifyUkNumber";
+
+export interface ProviderEntry {
+  key: string;        // normalised name, see normaliseProviderName
+  name: string;       // the spelling used most often in the rules
+  aliases: string[];  // every spelling seen, including `name`
+  ranges: number;     // allocated blocks held
+  byType: Partial<Record<NumberType, number>>;
+}
+
+export interface ProviderRange {
+  prefix: string;
+  totalLength: number;
+  numberType: NumberType;
+  status: string;
+  provider: string;   // as spelled in this rule
+  source?: OfcomSource;
+  areaCode?: string;
+  locality?: string;
+  designation?: string;
+}
+
+export interface ProviderDirectory {
+  providers: ProviderEntry[];          // sorted by name
+  get(name: string): ProviderEntry | undefined;
+  ranges(name: string): ProviderRange[] | undefined;  // sorted by prefix
+}
+
+// Company-form words that vary between sheets without changing the provider
+const LEGAL_SUFFIX = /\s+(limited|ltd|plc|llp|llc|inc)$/;
+
+/**
+ * Key that one provider's name spellings share: case, accents, punctuation
+ * ("B.T." is "BT"), "&" for "and" and a trailing "Ltd"/"Limited"/"plc" do not
+ * matter.
+ */
+export function normaliseProviderName(name: string): string {
+  let key = name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/['.’]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+  for (let previous = ""; previous !== key; ) {
+    previous = key;
+    key = key.replace(LEGAL_SUFFIX, "");
+  }
+  return key;
+}
+
+function rangeFor(rule: PrefixRule): ProviderRange {
+  return {
+    prefix: rule.prefix,
+    totalLength: rule.totalLength,
+    numberType: numberTypeForRule(rule),
+    status: rule.status,
+    provider: rule.provider!,
+    ...(rule.source && { source: rule.source }),
+    ...(rule.areaCode && { areaCode: rule.areaCode }),
+    ...(rule.locality && { locality: rule.locality }),
+    ...(rule.designation && { designation: rule.designation }),
+  };
+}
+
+const directories = new WeakMap<PrefixRule[], ProviderDirectory>();
+
+/**
+ * Group the allocated rules by provider. Built once per rule array, so a
+ * reloaded dataset gets its own directory.
+ */
+export function providerDirectory(rules: PrefixRule[]): ProviderDirectory {
+  const cached = directories.get(rules);
+  if (cached) return cached;
+
+  const groups = new Map<string, { spellings: Map<string, number>; rules: PrefixRule[] }>();
+  for (const rule of rules) {
+    if (!rule.provider?.trim() || !isLiveStatus(rule.status)) continue;
+    const key = normaliseProviderName(rule.provider);
+    if (!key) continue;
+    let group = groups.get(key);
+    if (!group) groups.set(key, (group = { spellings: new Map(), rules: [] }));
+    group.spellings.set(rule.provider, (group.spellings.get(rule.provider) ?? 0) + 1);
+    group.rules.push(rule);
+  }
+
+  const entries = new Map<string, ProviderEntry>();
+  groups.forEach((group, key) => {
+    const byType: Partial<Record<NumberType, number>> = {};
+    for (const rule of group.rules) {
+      const type = numberTypeForRule(rule);
+      byType[type] = (byType[type] ?? 0) + 1;
+    }
+    const spellings = Array.from(group.spellings.entries());
+    entries.set(key, {
+      key,
+      // Most used spelling; the first seen wins a tie
+      name: spellings.reduce((best, s) => (s[1] > best[1] ? s : best))[0],
+      aliases: spellings.map(s => s[0]).sort(),
+      ranges: group.rules.length,
+      byType,
+    });
+  });
+
+  const sortedRanges = new Map<string, ProviderRange[]>();
+  const directory: ProviderDirectory = {
+    providers: Array.from(entries.values()).sort((a, b) => a.name.localeCompare(b.name)),
+    get: name => entries.get(normaliseProviderName(name)),
+    ranges(name) {
+      const key = normaliseProviderName(name);
+      const group = groups.get(key);
+      if (!group) return undefined;
+      let ranges = sortedRanges.get(key);
+      if (!ranges) {
+        ranges = group.rules.map(rangeFor).sort((a, b) => (a.prefix < b.prefix ? -1 : a.prefix > b.prefix ? 1 : 0));
+        sortedRanges.set(key, ranges);
+      }
+      return ranges;
+    },
+  };
+  directories.set(rules, directory);
+  return directory;
+}
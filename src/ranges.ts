@@ -0,0 +1,89 @@
+// ranges.ts
+// Reverse lookup: the allocated blocks under a prefix, for checking coverage
+// and for generating numbers that are known to be valid
+
+import { CompiledIndex } from "./compiledIndex";
+import {
+  isLiveStatus,
+  numberTypeForRule,
+  NumberType,
+  OfcomSource,
+  PrefixIndex,
+  PrefixRule,
+  RuleIndex,
+} from "./classifyUkNumber";
+
+export interface AllocatedBlock {
+  prefix: string;
+  totalLength: number;
+  status: string;
+  provider?: string;
+  numberType: NumberType;
+  numberCount: number;  // numbers the block spans, 10^(totalLength - prefix length)
+  source?: OfcomSource;
+  areaCode?: string;
+  locality?: string;
+  designation?: string;
+}
+
+function blockFor(rule: PrefixRule): AllocatedBlock {
+  return {
+    prefix: rule.prefix,
+    totalLength: rule.totalLength,
+    status: rule.status,
+    ...(rule.provider && { provider: rule.provider }),
+    numberType: numberTypeForRule(rule),
+    numberCount: 10 ** Math.max(0, rule.totalLength - rule.prefix.length),
+    ...(rule.source && { source: rule.source }),
+    ...(rule.areaCode && { areaCode: rule.areaCode }),
+    ...(rule.locality && { locality: rule.locality }),
+    ...(rule.designation && { designation: rule.designation }),
+  };
+}
+
+// Both walks keep their own stack rather than nesting generators, so callers
+// compiled for ES5 can still iterate them
+
+function* trieBlocksUnder(prefix: string, idx: PrefixIndex): Generator<AllocatedBlock> {
+  let start: PrefixIndex | undefined = idx;
+  for (let i = 0; i < prefix.length && start; i++) start = start.children?.get(prefix[i]);
+  const stack = start ? [start] : [];
+  while (stack.length) {
+    const node = stack.pop()!;
+    // buildIndex sets maxLiveLength only where a diallable rule sits at or under the node
+    if (node.maxLiveLength === undefined) continue;
+    for (const rule of node.rules ?? []) {
+      if (isLiveStatus(rule.status)) yield blockFor(rule);
+    }
+    // Highest digit pushed first, so the lowest comes off next
+    const digits = Array.from(node.children?.keys() ?? []).sort().reverse();
+    for (const d of digits) stack.push(node.children!.get(d)!);
+  }
+}
+
+function* compiledBlocksUnder(prefix: string, idx: CompiledIndex): Generator<AllocatedBlock> {
+  let start = 0;
+  for (let i = 0; i < prefix.length && start >= 0; i++) start = idx.child(start, prefix.charCodeAt(i) - 48);
+  const stack = start >= 0 ? [{ node: start, prefix }] : [];
+  while (stack.length) {
+    const { node, prefix } = stack.pop()!;
+    if (!idx.liveBelow(node)) continue;
+    for (const rule of idx.rulesAt(node, prefix)) {
+      if (isLiveStatus(rule.status)) yield blockFor(rule);
+    }
+    for (let d = 9; d >= 0; d--) {
+      const child = idx.child(node, d);
+      if (child >= 0) stack.push({ node: child, prefix: prefix + d });
+    }
+  }
+}
+
+/**
+ * Every allocated (diallable) block whose prefix starts with `prefix`, in
+ * prefix order, a parent block before those nested in it. Blocks are produced
+ * as the index is walked, so stop early to look at only the first few; an
+ * empty prefix walks the whole index.
+ */
+export function allocatedBlocks(prefix: string, idx: RuleIndex): Generator<AllocatedBlock> {
+  return idx instanceof CompiledIndex ? compiledBlocksUnder(prefix, idx) : trieBlocksUnder(prefix, idx);
+}
@@ -0,0 +1,264 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { Worker } from "node:worker_threads";
+import { parseArtifact } from "./artifact";
+import { indexPathFor } from "./compiledIndex";
+import type { Dataset } from "./dataset";
+import logger from "./logger";
+
+export interface RefreshOptions {
+  schedule: string;    // cron expression: "minute hour day-of-month month day-of-week"
+  rulesPath: string;   // the prefixes.json the service loads
+  historyDir: string;  // where the last `keep` good datasets are kept
+  keep: number;
+  maxChange: number;   // largest accepted change in rule count, as a fraction (0.1 = 10%)
+  baseUrl?: string;    // Ofcom base URL override, e.g. a local fixture server
+  dataDir?: string;    // CSV cache directory
+  /** Load rulesPath into the service; must throw if the dataset fails its canary checks. */
+  activate: () => Promise<Dataset>;
+}
+
+export interface RefreshOutcome {
+  status: "activated" | "rejected" | "rolled_back";
+  ruleCount: number;
+  previousRuleCount?: number;
+  version?: string;
+  reason?: string;
+  historyFile?: string;
+}
+
+/** Passed to the refresh worker. */
+export interface RefreshWorkerData {
+  baseUrl?: string;
+  dataDir?: string;
+}
+
+/** Messages from the refresh worker to the main thread. */
+export type RefreshWorkerMessage =
+  | { type: "done"; ruleCount: number; content: string; index: ArrayBuffer }
+  | { type: "failed"; error: string };
+
+// setTimeout cannot wait longer than this (~24.8 days)
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+function parseCronField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    let lo: number;
+    let hi: number;
+    if (range === "*") {
+      lo = min;
+      hi = max;
+    } else if (range.includes("-")) {
+      [lo, hi] = range.split("-").map(Number);
+    } else {
+      lo = Number(range);
+      hi = stepText === undefined ? lo : max;
+    }
+    if (![lo, hi, step].every(Number.isInteger) || lo < min || hi > max || lo > hi || step < 1) {
+      throw new Error(`Invalid cron field "${field}"`);
+    }
+    for (let v = lo; v <= hi; v += step) values.add(v);
+  }
+  return values;
+}
+
+/**
+ * Next time after `after` that matches a five-field cron expression (local time).
+ * Supports `*`, lists, ranges and steps. As in cron, when both day-of-month and
+ * day-of-week are restricted a day matching either one runs.
+ */
+export function nextCronTime(expression: string, after: Date): Date {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) throw new Error(`Cron expression needs 5 fields: "${expression}"`);
+
+  const minutes = parseCronField(fields[0], 0, 59);
+  const hours = parseCronField(fields[1], 0, 23);
+  const daysOfMonth = parseCronField(fields[2], 1, 31);
+  const months = parseCronField(fields[3], 1, 12);
+  const daysOfWeek = parseCronField(fields[4], 0, 7);
+  if (daysOfWeek.has(7)) daysOfWeek.add(0);
+  const domRestricted = fields[2] !== "*";
+  const dowRestricted = fields[4] !== "*";
+
+  const t = new Date(after.getTime());
+  t.setSeconds(0, 0);
+  t.setMinutes(t.getMinutes() + 1);
+
+  const limit = after.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+  while (t.getTime() < limit) {
+    if (!months.has(t.getMonth() + 1)) {
+      t.setMonth(t.getMonth() + 1, 1);
+      t.setHours(0, 0, 0, 0);
+      continue;
+    }
+    const domMatch = daysOfMonth.has(t.getDate());
+    const dowMatch = daysOfWeek.has(t.getDay());
+    const dayMatch = domRestricted && dowRestricted ? domMatch || dowMatch : domMatch && dowMatch;
+    if (!dayMatch) {
+      t.setDate(t.getDate() + 1);
+      t.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!hours.has(t.getHours())) {
+      t.setHours(t.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!minutes.has(t.getMinutes())) {
+      t.setMinutes(t.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return t;
+  }
+  throw new Error(`Cron expression never matches: "${expression}"`);
+}
+
+/**
+ * Download and parse the Ofcom sheets in a worker thread: several hundred
+ * thousand rows would otherwise hold up every request for the whole parse.
+ */
+function pullInWorker(data: RefreshWorkerData): Promise<Extract<RefreshWorkerMessage, { type: "done" }>> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(path.join(__dirname, "refreshWorker.js"), { workerData: data });
+    worker.once("message", (message: RefreshWorkerMessage) => {
+      if (message.type === "done") resolve(message);
+      else reject(new Error(message.error));
+    });
+    worker.once("error", reject);
+    // Settling twice is a no-op, so this only matters if the worker died silently
+    worker.once("exit", code => reject(new Error(`Refresh worker exited with code ${code}`)));
+  });
+}
+
+/** Write via a temporary file and rename, so readers never see a partial file. */
+export async function writeFileAtomic(filePath: string, content: string | Uint8Array): Promise<void> {
+  const tmp = `${filePath}.${process.pid}.tmp`;
+  await fs.promises.writeFile(tmp, content);
+  await fs.promises.rename(tmp, filePath);
+}
+
+/**
+ * Periodically rebuilds prefixes.json and prefixes.idx from Ofcom and
+ * activates them. A refresh fails if any sheet cannot be downloaded, a new
+ * dataset is refused if its rule count moves by more than `maxChange`, and the
+ * previous files are restored if activation (and its canary checks) fails.
+ */
+export class DataRefresher {
+  private timer?: NodeJS.Timeout;
+  private running: Promise<RefreshOutcome> | null = null;
+
+  constructor(private readonly options: RefreshOptions) {
+    // Fail fast on a bad schedule rather than at the first tick
+    nextCronTime(options.schedule, new Date());
+  }
+
+  start(): void {
+    this.scheduleNext();
+  }
+
+  stop(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /** Run a refresh now; concurrent calls share the run in progress. */
+  refreshNow(): Promise<RefreshOutcome> {
+    if (!this.running) {
+      this.running = this.refresh().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /** Good datasets on disk, newest first. */
+  history(): string[] {
+    if (!fs.existsSync(this.options.historyDir)) return [];
+    return fs
+      .readdirSync(this.options.historyDir)
+      .filter(f => /^prefixes-.*\.json$/.test(f))
+      .sort()
+      .reverse()
+      .map(f => path.join(this.options.historyDir, f));
+  }
+
+  private scheduleNext(): void {
+    const next = nextCronTime(this.options.schedule, new Date());
+    const delay = next.getTime() - Date.now();
+    logger.info({ nextRefresh: next.toISOString() }, `Next Ofcom data refresh at ${next.toISOString()}`);
+
+    this.timer = setTimeout(() => {
+      if (delay > MAX_TIMER_DELAY) return this.scheduleNext();
+      this.refreshNow()
+        .catch((error) => logger.error({ error }, "Ofcom data refresh failed"))
+        .finally(() => this.scheduleNext());
+    }, Math.min(delay, MAX_TIMER_DELAY));
+    this.timer.unref();
+  }
+
+  private async refresh(): Promise<RefreshOutcome> {
+    const { rulesPath, historyDir, maxChange, baseUrl, dataDir, activate } = this.options;
+
+    const indexPath = indexPathFor(rulesPath);
+    const previous = fs.existsSync(rulesPath) ? await fs.promises.readFile(rulesPath, "utf8") : null;
+    const previousIndex = fs.existsSync(indexPath) ? await fs.promises.readFile(indexPath) : null;
+    const previousRuleCount = previous ? parseArtifact(previous).rules.length : undefined;
+
+    logger.info({ rulesPath }, "Refreshing Ofcom data...");
+    // The worker pulls strictly: a missing S5 or S10 sheet is a small change in
+    // rule count, so any sheet that cannot be pulled fails the refresh
+    const { ruleCount, content, index } = await pullInWorker({ baseUrl, dataDir });
+
+    if (!ruleCount) {
+      return this.reject(ruleCount, previousRuleCount, "Refresh produced no rules");
+    }
+    if (previousRuleCount) {
+      const change = Math.abs(ruleCount - previousRuleCount) / previousRuleCount;
+      if (change > maxChange) {
+        return this.reject(
+          ruleCount,
+          previousRuleCount,
+          `Rule count changed by ${(change * 100).toFixed(1)}% (${previousRuleCount} -> ${ruleCount}), limit is ${(maxChange * 100).toFixed(1)}%`
+        );
+      }
+    }
+
+    await writeFileAtomic(rulesPath, content);
+    await writeFileAtomic(indexPath, new Uint8Array(index));
+
+    let dataset: Dataset;
+    try {
+      dataset = await activate();
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      logger.error({ error, ruleCount }, "New dataset failed activation, rolling back");
+      if (previousIndex !== null) await writeFileAtomic(indexPath, previousIndex);
+      else await fs.promises.rm(indexPath, { force: true });
+      if (previous !== null) {
+        await writeFileAtomic(rulesPath, previous);
+        await activate();
+      } else {
+        await fs.promises.unlink(rulesPath);
+      }
+      return { status: "rolled_back", ruleCount, previousRuleCount, reason };
+    }
+
+    // Keep the last `keep` good datasets for manual rollback and diffing
+    await fs.promises.mkdir(historyDir, { recursive: true });
+    const historyFile = path.join(historyDir, `prefixes-${dataset.loadedAt.toISOString().replace(/[:.]/g, "-")}.json`);
+    await fs.promises.writeFile(historyFile, content);
+    for (const stale of this.history().slice(this.options.keep)) {
+      await fs.promises.unlink(stale);
+    }
+
+    logger.info({ version: dataset.version, ruleCount, previousRuleCount }, "Activated refreshed Ofcom data");
+    return { status: "activated", ruleCount, previousRuleCount, version: dataset.version, historyFile };
+  }
+
+  private reject(ruleCount: number, previousRuleCount: number | undefined, reason: string): RefreshOutcome {
+    logger.warn({ ruleCount, previousRuleCount }, `Refusing refreshed Ofcom data: ${reason}`);
+    return { status: "rejected", ruleCount, previousRuleCount, reason };
+  }
+}
@@ -0,0 +1,24 @@
+// refreshWorker.ts
+// Worker thread for the scheduled refresh: downloads and parses the Ofcom
+// sheets and builds both data files, so the service keeps answering meanwhile
+
+import { parentPort, workerData } from "node:worker_threads";
+import { serialiseArtifact } from "./artifact";
+import { buildIndex } from "./classifyUkNumber";
+import { compileIndex } from "./compiledIndex";
+import { downloadRules } from "./download";
+import type { RefreshWorkerData, RefreshWorkerMessage } from "./refresh";
+
+const { baseUrl, dataDir } = workerData as RefreshWorkerData;
+
+function post(message: RefreshWorkerMessage, transfer: ArrayBuffer[] = []): void {
+  parentPort!.postMessage(message, transfer);
+}
+
+(async () => {
+  const artifact = await downloadRules({ baseUrl, dataDir, strict: true });
+  const compiled = compileIndex(buildIndex(artifact.rules), artifact.checksum);
+  // Copy into a buffer of its own so it can be transferred rather than cloned
+  const index = new Uint8Array(compiled).buffer;
+  post({ type: "done", ruleCount: artifact.rules.length, content: serialiseArtifact(artifact), index }, [index]);
+})().catch(error => post({ type: "failed", error: error instanceof Error ? error.message : String(error) }));
@@ -0,0 +1,115 @@
+// responses.ts
+// Response bodies shared by the synchronous, streaming and job validation paths
+
+import { formatUkNumber, NumberFormat } from "./formatUkNumber";
+import {
+  ClassificationResult,
+  classifyUkNumber,
+  normaliseUkInput,
+  NumberClass,
+  resultForUnnormalised,
+  RuleIndex,
+  Transformation,
+} from "./classifyUkNumber";
+import { PortingSource, ProviderAttribution, withPorting } from "./porting";
+
+export interface FormattedNumber {
+  e164: string;
+  international: string;
+  national: string;
+}
+
+/** One number's entry, as returned by GET /validate and POST /validate/batch. */
+export interface ValidationResponse {
+  number: string;
+  national: string | null;
+  extension?: string;
+  transformations: Transformation[];
+  formatted: FormattedNumber | null;
+  result:
+    | (ClassificationResult & Partial<ProviderAttribution>)
+    | { class: NumberClass; countryCode?: string; provider: null; numberType: null; territory: null };
+  message: string;
+}
+
+// Every display format for a valid number
+export function formatAll(national: string, index: RuleIndex): FormattedNumber {
+  return {
+    e164: formatUkNumber(national, NumberFormat.E164, index),
+    international: formatUkNumber(national, NumberFormat.INTERNATIONAL, index),
+    national: formatUkNumber(national, NumberFormat.NATIONAL, index)
+  };
+}
+
+// User-friendly message for a classification
+export function getResultMessage(result: ClassificationResult & Partial<ProviderAttribution>): string {
+  switch (result.class) {
+    case NumberClass.NUMBER_VALID:
+      if (result.providerSource === "PORTING") {
+        return result.rangeHolder
+          ? `Valid UK number (${result.currentProvider}, ported from ${result.rangeHolder})`
+          : `Valid UK number (${result.currentProvider}, ported)`;
+      }
+      return result.provider
+        ? `Valid UK number (${result.provider})`
+        : "Valid UK number";
+    case NumberClass.NUMBER_TOO_SHORT:
+      return result.provider
+        ? `Number too short (${result.provider})`
+        : "Number too short";
+    case NumberClass.NUMBER_TOO_LONG:
+      return result.provider
+        ? `Number too long: expected ${result.expectedLength} digits (${result.provider})`
+        : `Number too long: expected ${result.expectedLength} digits`;
+    case NumberClass.NUMBER_PROTECTED:
+      return "Protected number: reserved by Ofcom for drama and testing, not a real subscriber";
+    case NumberClass.NUMBER_RESERVED:
+      return "Number range reserved by Ofcom and not in use";
+    case NumberClass.NUMBER_QUARANTINED:
+      return "Number range recently withdrawn and quarantined";
+    case NumberClass.NUMBER_WITHDRAWN:
+      return "Number range withdrawn";
+    case NumberClass.NUMBER_UNALLOCATED:
+      return "Number range not allocated to any provider";
+    case NumberClass.NUMBER_INVALID:
+      return "Invalid UK number";
+    case NumberClass.NUMBER_NOT_UK:
+      return `Not a UK number: country code +${result.countryCode}`;
+    default:
+      return "Unknown validation result";
+  }
+}
+
+/** `porting`, when given, supplies the current provider of ported numbers. */
+export function validationResponse(number: string, index: RuleIndex, porting?: PortingSource): ValidationResponse {
+  const normalised = normaliseUkInput(number);
+  const { national, extension, transformations } = normalised;
+  if (!national) {
+    const result = resultForUnnormalised(normalised);
+    return {
+      number: number,
+      national: null,
+      ...(extension && { extension }),
+      transformations: transformations,
+      formatted: null,
+      result: {
+        ...result,
+        provider: null,
+        numberType: null,
+        territory: null
+      },
+      message: result.countryCode ? getResultMessage(result) : "Invalid number format"
+    };
+  }
+
+  const result = withPorting(classifyUkNumber(national, index), national, porting);
+  return {
+    number: number,
+    national: national,
+    ...(extension && { extension }),
+    transformations: transformations,
+    formatted: result.class === NumberClass.NUMBER_VALID ? formatAll(national, index) : null,
+    result: result,
+    message: getResultMessage(result)
+  };
+}
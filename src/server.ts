@@ -1,8 +1,23 @@
 import express from 'express';
 import cors from 'cors';
-import { buildIndex, classifyUkNumber, normaliseToUkNational, NumberClass, PrefixRule, ClassificationResult } from './classifyUkNumber';
+import { lookupUkArea, normaliseToUkNational, ClassificationResult, NumberClass } from './classifyUkNumber';
+import { parseArtifact } from './artifact';
+import { checksFromEnv, Dataset, datasetVersion, loadDataset } from './dataset';
+import { DatasetDiff, diffRules } from './diff';
+import { JobRunner } from './jobs';
+import { FilePortingSource, ProviderAttribution } from './porting';
+import { providerDirectory } from './providers';
+import { allocatedBlocks, AllocatedBlock } from './ranges';
+import { DataRefresher } from './refresh';
+import { BulkInputFormat, bulkResultLine, readBulkInput, writeChunk } from './bulk';
+import { explainUkNumber } from './explain';
+import { validatePartialUkNumber } from './partial';
+import { validationResponse } from './responses';
+import { DEFAULT_SUGGESTIONS, suggestUkNumber } from './suggest';
+import { blockPremiumVerdict } from './tariffs';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
+import { pipeline } from 'node:stream';
 import logger from './logger';
 
 const app = express();
@@ -13,30 +28,89 @@ app.use(cors());
 app.use(express.json());
 
 // Global variables for the validator
-let rules: PrefixRule[] = [];
-let index: any = null;
-let isReady = false;
+// The active dataset is replaced wholesale on reload, so a request that has
+// picked it up keeps a consistent rules/index pair
+let dataset: Dataset | null = null;
+let reloading: Promise<Dataset> | null = null;
+// What changed when the active dataset replaced the one before it
+let lastChanges: { from: string; to: string; diff: DatasetDiff } | null = null;
+const rulesPath = path.resolve(process.cwd(), 'prefixes.json');
+const historyDir = path.resolve(process.cwd(), process.env.REFRESH_HISTORY_DIR || 'data/history');
+const datasetChecks = checksFromEnv();
+// Optional porting feed giving the current provider of ported numbers
+const portingPath = process.env.PORTING_FILE ? path.resolve(process.cwd(), process.env.PORTING_FILE) : undefined;
+let porting: FilePortingSource | undefined;
+// Pages of GET /ranges and GET /providers/:name/ranges
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
+// Build a dataset off to the side, validate it, then swap it in
+async function reloadDataset(reason: string): Promise<Dataset> {
+  // Serialise reloads: a second trigger while one is running waits for it
+  if (reloading) return reloading;
+
+  reloading = (async () => {
+    logger.info({ reason, rulesPath }, 'Loading UK number validation data...');
+    const startTime = Date.now();
+    const next = await loadDataset(rulesPath, datasetChecks);
+    const buildTime = Date.now() - startTime;
+
+    const previous = dataset;
+    dataset = next;
+    logger.info(
+      { reason, version: next.version, previousVersion: previous?.version, rulesCount: next.rules.length, buildTime },
+      `Loaded ${next.rules.length} validation rules (version ${next.version}) in ${buildTime}ms`
+    );
+
+    if (previous && previous.version !== next.version) {
+      const diff = diffRules(previous.rules, next.rules);
+      lastChanges = { from: previous.version, to: next.version, diff };
+      logger.info({ ...diff.summary, from: previous.version, to: next.version }, 'Dataset changes');
+      if (diff.duplicates.length) {
+        logger.warn(
+          { duplicates: diff.duplicates.length, from: previous.version, to: next.version },
+          `${diff.duplicates.length} blocks are listed more than once and were left out of the changes`
+        );
+      }
+      if (diff.summary.providerChanges) {
+        logger.warn(
+          { providerChanges: diff.summary.providerChanges, from: previous.version, to: next.version },
+          `${diff.summary.providerChanges} ranges moved to a new provider`
+        );
+      }
+    }
+    return next;
+  })();
+
+  try {
+    return await reloading;
+  } finally {
+    reloading = null;
+  }
+}
+
+// Swap in a freshly loaded porting feed; the previous one stays if it fails
+async function reloadPorting(): Promise<FilePortingSource | undefined> {
+  if (!portingPath) return undefined;
+  const startTime = Date.now();
+  const next = await FilePortingSource.load(portingPath);
+  porting = next;
+  logger.info(
+    { portingPath, records: next.size, skippedRows: next.skippedRows, loadTime: Date.now() - startTime },
+    `Loaded ${next.size} porting records`
+  );
+  return next;
+}
 
 // Load and initialize the validator
 async function initializeValidator() {
   try {
-    logger.info('Loading UK number validation data...');
-    const rulesPath = path.resolve(process.cwd(), 'prefixes.json');
-    
     if (!fs.existsSync(rulesPath)) {
       throw new Error('prefixes.json not found. Please run the build process first.');
     }
-    
-    rules = JSON.parse(fs.readFileSync(rulesPath, 'utf8'));
-    logger.info({ rulesCount: rules.length }, `Loaded ${rules.length} validation rules`);
-    
-    logger.info('Building validation index...');
-    const startTime = Date.now();
-    index = buildIndex(rules);
-    const buildTime = Date.now() - startTime;
-    logger.info({ buildTime }, `Index built in ${buildTime}ms`);
-    
-    isReady = true;
+
+    await reloadDataset('startup');
+    await reloadPorting();
     logger.info('UK Number Validator service is ready!');
   } catch (error) {
     logger.error({ error }, 'Failed to initialize validator');
@@ -44,26 +118,183 @@ async function initializeValidator() {
   }
 }
 
+// Reload when the rules file is replaced (e.g. by the weekly Ofcom refresh)
+function watchRulesFile() {
+  let timer: NodeJS.Timeout | undefined;
+  fs.watchFile(rulesPath, { interval: 5000 }, (curr, prev) => {
+    if (curr.mtimeMs === prev.mtimeMs || curr.size === 0) return;
+    // Debounce so a file that is still being written is only loaded once
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      reloadDataset('file changed').catch((error) =>
+        logger.error({ error, version: dataset?.version }, 'Reload failed, keeping current dataset')
+      );
+    }, 1000);
+  });
+}
+
+// Scheduled in-process Ofcom refresh, enabled by REFRESH_SCHEDULE
+const refresher = process.env.REFRESH_SCHEDULE
+  ? new DataRefresher({
+      schedule: process.env.REFRESH_SCHEDULE,
+      rulesPath,
+      historyDir,
+      keep: parseInt(process.env.REFRESH_KEEP || '5', 10),
+      maxChange: parseFloat(process.env.REFRESH_MAX_CHANGE || '0.1'),
+      activate: () => reloadDataset('scheduled refresh')
+    })
+  : null;
+
+// Bulk validation jobs, kept on disk so they survive a restart
+const jobs = new JobRunner({
+  dir: path.resolve(process.cwd(), process.env.JOBS_DIR || 'data/jobs'),
+  rulesPath,
+  portingPath,
+  checks: datasetChecks,
+  retentionHours: parseFloat(process.env.JOB_RETENTION_HOURS || '24'),
+  datasetVersion: () => dataset?.version
+});
+
+// Bearer token for /admin endpoints. They swap datasets and start downloads
+// from Ofcom, so without ADMIN_TOKEN they are switched off
+function requireAdmin(req: express.Request, res: express.Response, next: express.NextFunction) {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    return res.status(403).json({
+      error: 'Forbidden',
+      message: 'Admin endpoints are disabled. Set ADMIN_TOKEN to enable them'
+    });
+  }
+  if (req.get('authorization') !== `Bearer ${token}`) {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'A valid admin token is required'
+    });
+  }
+  next();
+}
+
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.json({
     status: 'ok',
-    ready: isReady,
-    rulesLoaded: rules.length,
+    ready: dataset !== null,
+    rulesLoaded: dataset?.rules.length ?? 0,
+    dataset: dataset && {
+      version: dataset.version,
+      loadedAt: dataset.loadedAt.toISOString()
+    },
+    porting: porting ? { source: porting.name, records: porting.size } : null,
     timestamp: new Date().toISOString()
   });
 });
 
+// Reload the rules file without restarting
+app.post('/admin/reload', requireAdmin, async (req, res) => {
+  try {
+    const loaded = await reloadDataset('admin request');
+    const portingLoaded = await reloadPorting();
+    res.json({
+      status: 'reloaded',
+      version: loaded.version,
+      loadedAt: loaded.loadedAt.toISOString(),
+      rulesLoaded: loaded.rules.length,
+      portingRecords: portingLoaded?.size ?? null
+    });
+  } catch (error) {
+    logger.error({ error, version: dataset?.version }, 'Reload failed, keeping current dataset');
+    res.status(422).json({
+      error: 'Reload failed',
+      message: error instanceof Error ? error.message : String(error),
+      version: dataset?.version ?? null
+    });
+  }
+});
+
+// Run the Ofcom refresh now rather than waiting for the schedule
+app.post('/admin/refresh', requireAdmin, async (req, res) => {
+  if (!refresher) {
+    return res.status(404).json({
+      error: 'Refresh disabled',
+      message: 'Set REFRESH_SCHEDULE to enable in-process data refresh'
+    });
+  }
+
+  try {
+    const outcome = await refresher.refreshNow();
+    res.status(outcome.status === 'activated' ? 200 : 422).json(outcome);
+  } catch (error) {
+    logger.error({ error }, 'Ofcom data refresh failed');
+    res.status(500).json({
+      error: 'Refresh failed',
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+// Changes in the loaded dataset since the previous one, or since a version kept in history
+app.get('/admin/changes', requireAdmin, async (req, res) => {
+  if (!dataset) {
+    return res.status(503).json({
+      error: 'Service not ready',
+      message: 'Validator is still initializing'
+    });
+  }
+  const current = dataset;
+  const { since } = req.query;
+
+  if (since !== undefined && typeof since !== 'string') {
+    return res.status(400).json({
+      error: 'Invalid request',
+      message: 'since must be a dataset version'
+    });
+  }
+
+  const latest = lastChanges?.to === current.version ? lastChanges : null;
+  if (!since || since === latest?.from) {
+    if (!latest) {
+      return res.status(404).json({
+        error: 'No previous dataset',
+        message: 'The loaded dataset has not replaced an earlier one; pass ?since=<version> to compare with history'
+      });
+    }
+    return res.json(latest);
+  }
+
+  try {
+    const files = fs.existsSync(historyDir) ? await fs.promises.readdir(historyDir) : [];
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      const raw = await fs.promises.readFile(path.join(historyDir, file), 'utf8');
+      if (datasetVersion(raw) !== since) continue;
+      return res.json({ from: since, to: current.version, diff: diffRules(parseArtifact(raw).rules, current.rules) });
+    }
+
+    res.status(404).json({
+      error: 'Unknown version',
+      message: `No dataset with version ${since} in ${historyDir}`
+    });
+  } catch (error) {
+    logger.error({ error, since }, 'Change report error');
+    res.status(500).json({
+      error: 'Change report failed',
+      message: 'An error occurred while comparing datasets'
+    });
+  }
+});
+
 // Main validation endpoint
 app.get('/validate', (req, res) => {
-  if (!isReady) {
+  if (!dataset) {
     return res.status(503).json({
       error: 'Service not ready',
       message: 'Validator is still initializing'
     });
   }
+  const { index } = dataset;
 
   const { number } = req.query;
+  const blockPremium = req.query.blockPremium === 'true';
+  const explain = req.query.explain === 'true';
   
   if (!number || typeof number !== 'string') {
     return res.status(400).json({
@@ -73,26 +304,15 @@ app.get('/validate', (req, res) => {
   }
 
   try {
-    const national = normaliseToUkNational(number);
-    if (!national) {
-      return res.json({
-        number: number,
-        national: null,
-        result: {
-          class: NumberClass.NUMBER_INVALID,
-          provider: null
-        },
-        message: 'Invalid number format'
-      });
-    }
+    const { message, ...response } = validationResponse(number, index, porting);
+    const { providerSource } = response.result as ClassificationResult & ProviderAttribution;
 
-    const result = classifyUkNumber(national, index);
-    
     res.json({
-      number: number,
-      national: national,
-      result: result,
-      message: getResultMessage(result)
+      ...response,
+      ported: providerSource === 'PORTING',
+      ...(blockPremium && { policy: blockPremiumVerdict(response.result) }),
+      ...(explain && { explanation: explainUkNumber(number, index) }),
+      message
     });
   } catch (error) {
     logger.error({ error, number }, 'Validation error');
@@ -103,14 +323,58 @@ app.get('/validate', (req, res) => {
   }
 });
 
+// As-you-type check of an incomplete number
+app.get('/validate/partial', (req, res) => {
+  if (!dataset) {
+    return res.status(503).json({
+      error: 'Service not ready',
+      message: 'Validator is still initializing'
+    });
+  }
+  const { index } = dataset;
+
+  const { number } = req.query;
+
+  if (typeof number !== 'string') {
+    return res.status(400).json({
+      error: 'Invalid request',
+      message: 'Please provide the digits typed so far in the query string (e.g., ?number=0207)'
+    });
+  }
+
+  try {
+    const { input, ...partial } = validatePartialUkNumber(number, index);
+    res.json({
+      number: input,
+      ...partial,
+      message: !partial.possible
+        ? 'Cannot become a valid UK number'
+        : partial.valid
+          ? partial.maxRemaining ? 'Valid UK number; longer numbers are possible too' : 'Valid UK number'
+          : partial.minRemaining === null
+            ? 'Keep typing'
+            : partial.minRemaining === partial.maxRemaining
+              ? `${partial.minRemaining} more digit${partial.minRemaining === 1 ? '' : 's'} needed`
+              : `${partial.minRemaining} to ${partial.maxRemaining} more digits needed`
+    });
+  } catch (error) {
+    logger.error({ error, number }, 'Partial validation error');
+    res.status(500).json({
+      error: 'Validation failed',
+      message: 'An error occurred during validation'
+    });
+  }
+});
+
 // Batch validation endpoint
 app.post('/validate/batch', (req, res) => {
-  if (!isReady) {
+  if (!dataset) {
     return res.status(503).json({
       error: 'Service not ready',
       message: 'Validator is still initializing'
     });
   }
+  const { index } = dataset;
 
   const { numbers } = req.body;
   
@@ -129,28 +393,7 @@ app.post('/validate/batch', (req, res) => {
   }
 
   try {
-    const results = numbers.map((number: string) => {
-      const national = normaliseToUkNational(number);
-      if (!national) {
-        return {
-          number: number,
-          national: null,
-          result: {
-            class: NumberClass.NUMBER_INVALID,
-            provider: null
-          },
-          message: 'Invalid number format'
-        };
-      }
-
-      const result = classifyUkNumber(national, index);
-      return {
-        number: number,
-        national: national,
-        result: result,
-        message: getResultMessage(result)
-      };
-    });
+    const results = numbers.map((number: string) => validationResponse(number, index, porting));
 
     res.json({
       results: results,
@@ -165,6 +408,387 @@ app.post('/validate/batch', (req, res) => {
   }
 });
 
+// Input layouts accepted by /validate/bulk, by Content-Type
+function bulkInputFormat(contentType?: string): BulkInputFormat | null {
+  const type = (contentType ?? '').split(';')[0].trim().toLowerCase();
+  if (type === 'text/csv') return 'csv';
+  if (['application/x-ndjson', 'application/ndjson', 'application/jsonl'].includes(type)) return 'ndjson';
+  if (type === 'text/plain') return 'text';
+  return null;
+}
+
+// Streaming bulk validation: NDJSON, CSV or plain-text lines in, NDJSON out.
+// Lines are classified as they arrive and written with backpressure, so the
+// upload size is unbounded; bad lines are reported inline.
+app.post('/validate/bulk', async (req, res) => {
+  if (!dataset) {
+    return res.status(503).json({
+      error: 'Service not ready',
+      message: 'Validator is still initializing'
+    });
+  }
+  const { index } = dataset;
+  // Like the dataset, the porting feed stays the same for the whole stream
+  const bulkPorting = porting;
+
+  const format = bulkInputFormat(req.get('content-type'));
+  if (!format) {
+    return res.status(415).json({
+      error: 'Unsupported media type',
+      message: 'Send application/x-ndjson, text/csv or text/plain (one number per line)'
+    });
+  }
+  const column = typeof req.query.column === 'string' ? req.query.column : 'number';
+
+  let count = 0;
+  let errors = 0;
+  try {
+    for await (const entry of readBulkInput(req, format, column)) {
+      if (!res.headersSent) {
+        // A CSV without the column is a bad request, not thousands of bad lines
+        if (format === 'csv' && entry.error) {
+          return res.status(400).json({
+            error: 'Invalid request',
+            message: `${entry.error} in the CSV header (choose one with ?column=<name>)`
+          });
+        }
+        res.status(200).type('application/x-ndjson');
+      }
+
+      count++;
+      if (entry.error) errors++;
+      if (!(await writeChunk(res, JSON.stringify(bulkResultLine(entry, index, bulkPorting)) + '\n'))) {
+        logger.warn({ count, format }, 'Bulk validation client went away');
+        return;
+      }
+    }
+  } catch (error) {
+    logger.error({ error, count, format }, 'Bulk validation error');
+    if (!res.headersSent) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: error instanceof Error ? error.message : 'Could not read the request body'
+      });
+    }
+    // Already streaming: report the failure as the last line
+    errors++;
+    await writeChunk(res, JSON.stringify({ error: error instanceof Error ? error.message : 'Could not read the request body' }) + '\n');
+  }
+
+  if (!res.headersSent) res.status(200).type('application/x-ndjson');
+  res.end();
+  logger.info({ count, errors, format }, `Bulk validated ${count} lines`);
+});
+
+// Asynchronous bulk jobs: same input as /validate/bulk, processed in a worker thread
+app.post('/jobs', async (req, res) => {
+  if (!dataset) {
+    return res.status(503).json({
+      error: 'Service not ready',
+      message: 'Validator is still initializing'
+    });
+  }
+
+  const format = bulkInputFormat(req.get('content-type'));
+  if (!format) {
+    return res.status(415).json({
+      error: 'Unsupported media type',
+      message: 'Send application/x-ndjson, text/csv or text/plain (one number per line)'
+    });
+  }
+  const column = typeof req.query.column === 'string' ? req.query.column : 'number';
+
+  try {
+    const job = await jobs.submit(req, format, column);
+    res.status(202).location(`/jobs/${job.id}`).json({
+      ...job,
+      links: { status: `/jobs/${job.id}`, result: `/jobs/${job.id}/result` }
+    });
+  } catch (error) {
+    logger.error({ error }, 'Could not queue bulk job');
+    res.status(500).json({
+      error: 'Job submission failed',
+      message: 'An error occurred while storing the upload'
+    });
+  }
+});
+
+app.get('/jobs/:id', async (req, res) => {
+  const job = await jobs.get(req.params.id);
+  if (!job) {
+    return res.status(404).json({
+      error: 'Not found',
+      message: `No job ${req.params.id}`
+    });
+  }
+  res.json({
+    ...job,
+    progress: job.status === 'completed' ? 1 : job.inputBytes ? job.bytesRead / job.inputBytes : 0
+  });
+});
+
+app.get('/jobs/:id/result', async (req, res) => {
+  const job = await jobs.get(req.params.id);
+  if (!job) {
+    return res.status(404).json({
+      error: 'Not found',
+      message: `No job ${req.params.id}`
+    });
+  }
+  if (job.status !== 'completed') {
+    return res.status(409).json({
+      error: 'Result not ready',
+      message: job.status === 'failed' ? `Job failed: ${job.error}` : `Job is ${job.status}`,
+      status: job.status
+    });
+  }
+  // A completed job without a readable result is our fault: say so before
+  // any of the body is sent
+  const resultPath = jobs.resultPath(job.id);
+  try {
+    await fs.promises.access(resultPath, fs.constants.R_OK);
+  } catch (error) {
+    logger.error({ error, id: job.id }, 'Bulk job result is missing');
+    return res.status(500).json({
+      error: 'Result unavailable',
+      message: `The result of job ${job.id} could not be read`
+    });
+  }
+  res.type('application/x-ndjson');
+  pipeline(fs.createReadStream(resultPath), res, (error) => {
+    // pipeline has already destroyed the response, so the client sees a cut-off body
+    if (error) logger.warn({ error, id: job.id }, 'Bulk job result stream ended early');
+  });
+});
+
+// Geographic area lookup endpoint
+app.get('/area', (req, res) => {
+  if (!dataset) {
+    return res.status(503).json({
+      error: 'Service not ready',
+      message: 'Validator is still initializing'
+    });
+  }
+  const { index } = dataset;
+
+  const { number } = req.query;
+
+  if (!number || typeof number !== 'string') {
+    return res.status(400).json({
+      error: 'Invalid request',
+      message: 'Please provide a number in the query string (e.g., ?number=01144960000)'
+    });
+  }
+
+  try {
+    const national = normaliseToUkNational(number);
+    const area = national ? lookupUkArea(national, index) : null;
+
+    res.json({
+      number: number,
+      national: national,
+      area: area,
+      message: area
+        ? `${area.locality ?? 'Area'} (${area.areaCode})`
+        : 'No geographic area found for this number'
+    });
+  } catch (error) {
+    logger.error({ error, number }, 'Area lookup error');
+    res.status(500).json({
+      error: 'Area lookup failed',
+      message: 'An error occurred during area lookup'
+    });
+  }
+});
+
+// Corrections for mistyped numbers
+app.get('/suggest', (req, res) => {
+  if (!dataset) {
+    return res.status(503).json({
+      error: 'Service not ready',
+      message: 'Validator is still initializing'
+    });
+  }
+  const { index } = dataset;
+
+  const { number } = req.query;
+  const limit = req.query.limit === undefined ? DEFAULT_SUGGESTIONS : Number(req.query.limit);
+
+  if (!number || typeof number !== 'string') {
+    return res.status(400).json({
+      error: 'Invalid request',
+      message: 'Please provide a number in the query string (e.g., ?number=0207946000)'
+    });
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > 20) {
+    return res.status(400).json({
+      error: 'Invalid request',
+      message: 'limit must be a whole number from 1 to 20'
+    });
+  }
+
+  try {
+    const { input, ...suggested } = suggestUkNumber(number, index, limit);
+    const [best] = suggested.suggestions;
+    res.json({
+      number: input,
+      ...suggested,
+      message: best
+        ? `Did you mean ${best.formatted.national}?`
+        : suggested.result.class === NumberClass.NUMBER_INVALID || suggested.result.class === NumberClass.NUMBER_TOO_SHORT
+          ? 'No valid number found within one edit'
+          : 'Suggestions are only given for invalid or too-short numbers'
+    });
+  } catch (error) {
+    logger.error({ error, number }, 'Suggestion error');
+    res.status(500).json({
+      error: 'Suggestion failed',
+      message: 'An error occurred while looking for corrections'
+    });
+  }
+});
+
+// Allocated blocks under a prefix, a page at a time
+app.get('/ranges', (req, res) => {
+  if (!dataset) {
+    return res.status(503).json({
+      error: 'Service not ready',
+      message: 'Validator is still initializing'
+    });
+  }
+  const { index } = dataset;
+
+  const prefix = typeof req.query.prefix === 'string' ? req.query.prefix.replace(/[\s-]+/g, '') : '';
+  const page = req.query.page === undefined ? 1 : Number(req.query.page);
+  const pageSize = req.query.pageSize === undefined ? DEFAULT_PAGE_SIZE : Number(req.query.pageSize);
+
+  if (!/^\d+$/.test(prefix)) {
+    return res.status(400).json({
+      error: 'Invalid request',
+      message: 'Please provide a digit prefix in national format (e.g., ?prefix=07700)'
+    });
+  }
+  if (!Number.isInteger(page) || page < 1) {
+    return res.status(400).json({
+      error: 'Invalid request',
+      message: 'page must be a whole number from 1'
+    });
+  }
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    return res.status(400).json({
+      error: 'Invalid request',
+      message: `pageSize must be a whole number from 1 to ${MAX_PAGE_SIZE}`
+    });
+  }
+
+  try {
+    // Walk every block for the totals, keeping only this page's
+    const start = (page - 1) * pageSize;
+    const ranges: AllocatedBlock[] = [];
+    let total = 0;
+    let numbers = 0;
+    for (const block of allocatedBlocks(prefix, index)) {
+      if (total >= start && ranges.length < pageSize) ranges.push(block);
+      total++;
+      numbers += block.numberCount;
+    }
+
+    res.json({
+      prefix,
+      total,
+      numbers,
+      page,
+      pageSize,
+      pages: Math.ceil(total / pageSize),
+      ranges,
+      message: total ? `${total} allocated block${total === 1 ? '' : 's'} under ${prefix}` : `No allocated blocks under ${prefix}`
+    });
+  } catch (error) {
+    logger.error({ error, prefix }, 'Range lookup error');
+    res.status(500).json({
+      error: 'Range lookup failed',
+      message: 'An error occurred while listing ranges'
+    });
+  }
+});
+
+// Communications providers named in the loaded rules
+app.get('/providers', (req, res) => {
+  if (!dataset) {
+    return res.status(503).json({
+      error: 'Service not ready',
+      message: 'Validator is still initializing'
+    });
+  }
+
+  try {
+    const { providers } = providerDirectory(dataset.rules);
+    res.json({ count: providers.length, providers });
+  } catch (error) {
+    logger.error({ error }, 'Provider listing error');
+    res.status(500).json({
+      error: 'Provider listing failed',
+      message: 'An error occurred while listing providers'
+    });
+  }
+});
+
+// One provider's allocated blocks, a page at a time
+app.get('/providers/:name/ranges', (req, res) => {
+  if (!dataset) {
+    return res.status(503).json({
+      error: 'Service not ready',
+      message: 'Validator is still initializing'
+    });
+  }
+
+  const { name } = req.params;
+  const page = req.query.page === undefined ? 1 : Number(req.query.page);
+  const pageSize = req.query.pageSize === undefined ? DEFAULT_PAGE_SIZE : Number(req.query.pageSize);
+
+  if (!Number.isInteger(page) || page < 1) {
+    return res.status(400).json({
+      error: 'Invalid request',
+      message: 'page must be a whole number from 1'
+    });
+  }
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    return res.status(400).json({
+      error: 'Invalid request',
+      message: `pageSize must be a whole number from 1 to ${MAX_PAGE_SIZE}`
+    });
+  }
+
+  try {
+    const directory = providerDirectory(dataset.rules);
+    const provider = directory.get(name);
+    const ranges = directory.ranges(name);
+    if (!provider || !ranges) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: `No provider ${name} in the loaded rules; GET /providers lists them`
+      });
+    }
+
+    const start = (page - 1) * pageSize;
+    res.json({
+      provider: provider.name,
+      key: provider.key,
+      total: ranges.length,
+      page,
+      pageSize,
+      pages: Math.ceil(ranges.length / pageSize),
+      ranges: ranges.slice(start, start + pageSize)
+    });
+  } catch (error) {
+    logger.error({ error, name }, 'Provider ranges error');
+    res.status(500).json({
+      error: 'Provider ranges failed',
+      message: 'An error occurred while listing the provider\'s ranges'
+    });
+  }
+});
+
 // Service info endpoint
 app.get('/info', (req, res) => {
   res.json({
@@ -172,34 +796,34 @@ app.get('/info', (req, res) => {
     version: '1.0.0',
     description: 'Authoritative UK number validation against Ofcom data',
     endpoints: {
-      'GET /validate?number=<number>': 'Validate a single number',
+      'GET /validate?number=<number>[&blockPremium=true][&explain=true]': 'Validate a single number, optionally with a premium-rate policy verdict or an explanation of the result',
+      'GET /validate/partial?number=<digits so far>': 'Whether an incomplete number can still become valid, and how many digits it needs',
       'POST /validate/batch': 'Validate multiple numbers (max 100)',
+      'POST /validate/bulk[?column=<name>]': 'Stream NDJSON, CSV or plain-text numbers in and NDJSON results out, any size',
+      'POST /jobs[?column=<name>]': 'Queue the same input as /validate/bulk as a background job',
+      'GET /jobs/:id': 'Status and progress of a bulk job',
+      'GET /jobs/:id/result': 'NDJSON results of a completed bulk job',
+      'GET /suggest?number=<number>[&limit=<n>]': 'Valid numbers one edit away from an invalid or too-short number',
+      'GET /area?number=<number>': 'Look up the area code and place name of a geographic number',
+      'GET /ranges?prefix=<digits>[&page=<n>][&pageSize=<n>]': 'Allocated blocks under a prefix, with status, length, provider and number count',
+      'GET /providers': 'Communications providers in the loaded rules, with allocated range counts by number type',
+      'GET /providers/:name/ranges[?page=<n>][&pageSize=<n>]': 'A provider\'s allocated blocks, sorted by prefix and paginated',
+      'POST /admin/reload': 'Reload prefixes.json without restarting (needs ADMIN_TOKEN)',
+      'POST /admin/refresh': 'Download Ofcom data now and activate it (needs ADMIN_TOKEN and REFRESH_SCHEDULE)',
+      'GET /admin/changes[?since=<version>]': 'Changes in the loaded dataset since the previous or a given version (needs ADMIN_TOKEN)',
       'GET /health': 'Service health check',
       'GET /info': 'Service information'
     },
-    ready: isReady,
-    rulesLoaded: rules.length
+    ready: dataset !== null,
+    rulesLoaded: dataset?.rules.length ?? 0,
+    dataset: dataset && {
+      version: dataset.version,
+      loadedAt: dataset.loadedAt.toISOString(),
+      ...dataset.metadata
+    }
   });
 });
 
-// Helper function to generate user-friendly messages
-function getResultMessage(result: ClassificationResult): string {
-  switch (result.class) {
-    case NumberClass.NUMBER_VALID:
-      return result.provider 
-        ? `Valid UK number (${result.provider})`
-        : 'Valid UK number';
-    case NumberClass.NUMBER_TOO_SHORT:
-      return result.provider
-        ? `Number too short (${result.provider})`
-        : 'Number too short';
-    case NumberClass.NUMBER_INVALID:
-      return 'Invalid UK number';
-    default:
-      return 'Unknown validation result';
-  }
-}
-
 // Error handling middleware
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
   logger.error({ error: err, url: req.url, method: req.method }, 'Unhandled error');
@@ -220,6 +844,10 @@ app.use((req, res) => {
 // Start the server
 async function startServer() {
   await initializeValidator();
+  if (!process.env.ADMIN_TOKEN) logger.warn('ADMIN_TOKEN is not set: /admin endpoints are disabled');
+  if (process.env.WATCH_RULES !== 'false') watchRulesFile();
+  refresher?.start();
+  await jobs.start();
   
   app.listen(PORT, () => {
     logger.info({ port: PORT }, `UK Number Validator service running on port ${PORT}`);
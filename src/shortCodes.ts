@@ -0,0 +1,29 @@
+import type { PrefixRule } from "./classifyUkNumber";
+
+/**
+ * Short codes designated in the National Telephone Numbering Plan rather than
+ * allocated block-by-block in the Ofcom CSVs. Maintained by hand; check against
+ * the plan when Ofcom publishes a revision.
+ */
+const SHORT_CODES = [
+  "999",    // Emergency services
+  "112",    // Emergency services
+  "100",    // Operator assistance
+  "101",    // Police non-emergency
+  "105",    // Power cut helpline
+  "111",    // NHS non-emergency
+  "123",    // Speaking clock
+  "155",    // International operator
+  "116000", // Hotline for missing children
+  "116006", // Helpline for victims of crime
+  "116111", // Child helpline
+  "116117", // Non-emergency medical on-call service
+  "116123", // Emotional support helpline
+];
+
+export const SHORT_CODE_RULES: PrefixRule[] = SHORT_CODES.map(code => ({
+  prefix: code,
+  totalLength: code.length,
+  status: "Allocated",
+  source: "NTNP",
+}));
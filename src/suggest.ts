@@ -0,0 +1,131 @@
+// suggest.ts
+// "Did you mean" corrections: diallable numbers one edit away from a near miss
+
+import {
+  ClassificationResult,
+  classifyUkNumber,
+  normaliseToUkNational,
+  normaliseUkInput,
+  NumberClass,
+  resultForUnnormalised,
+  RuleIndex,
+} from "./classifyUkNumber";
+import { formatAll, FormattedNumber } from "./responses";
+
+export type EditType = "substitution" | "transposition" | "insertion" | "deletion";
+
+export interface Edit {
+  type: EditType;
+  position: number; // 0-based index into `national`, or the typed digits when the input does not normalise
+}
+
+export interface Suggestion {
+  national: string;
+  formatted: FormattedNumber;
+  result: ClassificationResult;
+  edit: Edit;
+  score: number;    // lower is more plausible
+}
+
+export interface SuggestResult {
+  input: string;
+  national: string | null;
+  result: ClassificationResult;
+  suggestions: Suggestion[];   // empty unless the input is NUMBER_INVALID or NUMBER_TOO_SHORT
+}
+
+export const DEFAULT_SUGGESTIONS = 5;
+
+// Neighbouring keys on a phone keypad: the likeliest wrong digit
+const KEYPAD_NEIGHBOURS: Record<string, string> = {
+  "1": "24", "2": "135", "3": "26",
+  "4": "157", "5": "2468", "6": "359",
+  "7": "48", "8": "5790", "9": "68",
+  "0": "8",
+};
+
+/**
+ * How plausible an edit is as the user's mistake. Swapped and dropped digits
+ * are the commonest slips, then a neighbouring key; a dropped digit is the
+ * first guess for a number that is too short.
+ */
+function editCost(edit: Edit, original: string, replacement: string, tooShort: boolean): number {
+  switch (edit.type) {
+    case "transposition":
+      return 1;
+    case "insertion":
+      return tooShort ? 0.5 : 1;
+    case "substitution":
+      return KEYPAD_NEIGHBOURS[original].includes(replacement) ? 1.5 : 2;
+    case "deletion":
+      return 2;
+  }
+}
+
+/** Every digit string one edit from `digits`, with the edit that makes it. */
+function* oneEditAway(digits: string): Generator<{ candidate: string; edit: Edit; original: string; replacement: string }> {
+  for (let i = 0; i < digits.length; i++) {
+    const head = digits.slice(0, i);
+    for (const d of "0123456789") {
+      if (d !== digits[i]) {
+        yield { candidate: head + d + digits.slice(i + 1), edit: { type: "substitution", position: i }, original: digits[i], replacement: d };
+      }
+    }
+    if (i + 1 < digits.length && digits[i] !== digits[i + 1]) {
+      yield {
+        candidate: head + digits[i + 1] + digits[i] + digits.slice(i + 2),
+        edit: { type: "transposition", position: i },
+        original: digits[i],
+        replacement: digits[i + 1],
+      };
+    }
+    yield { candidate: head + digits.slice(i + 1), edit: { type: "deletion", position: i }, original: digits[i], replacement: "" };
+  }
+  for (let i = 0; i <= digits.length; i++) {
+    for (const d of "0123456789") {
+      yield {
+        candidate: digits.slice(0, i) + d + digits.slice(i),
+        edit: { type: "insertion", position: i },
+        original: "",
+        replacement: d,
+      };
+    }
+  }
+}
+
+/**
+ * Diallable numbers within one substitution, transposition, insertion or
+ * deletion of a NUMBER_INVALID or NUMBER_TOO_SHORT input, most plausible first.
+ * Input that does not normalise (e.g. a dropped trunk 0) is edited as typed.
+ */
+export function suggestUkNumber(input: string, idx: RuleIndex, limit = DEFAULT_SUGGESTIONS): SuggestResult {
+  const normalised = normaliseUkInput(input);
+  const { national } = normalised;
+  const result = national ? classifyUkNumber(national, idx) : resultForUnnormalised(normalised);
+  const digits = national ?? (input || "").replace(/\D+/g, "");
+  if (!digits || (result.class !== NumberClass.NUMBER_INVALID && result.class !== NumberClass.NUMBER_TOO_SHORT)) {
+    return { input, national, result, suggestions: [] };
+  }
+
+  const tooShort = result.class === NumberClass.NUMBER_TOO_SHORT;
+  // Several edits can reach the same number: keep the most plausible, then the last
+  const best = new Map<string, Omit<Suggestion, "formatted">>();
+  for (const { candidate, edit, original, replacement } of oneEditAway(digits)) {
+    const corrected = normaliseToUkNational(candidate);
+    if (!corrected || corrected === national) continue;
+    const score = editCost(edit, original, replacement, tooShort);
+    const seen = best.get(corrected);
+    if (seen && seen.score < score) continue;
+
+    const candidateResult = seen?.result ?? classifyUkNumber(corrected, idx);
+    if (candidateResult.class !== NumberClass.NUMBER_VALID) continue;
+    best.set(corrected, { national: corrected, result: candidateResult, edit, score });
+  }
+
+  // Between equally likely edits, prefer one further along: people rarely mistype their area code
+  const suggestions = Array.from(best.values())
+    .sort((a, b) => a.score - b.score || b.edit.position - a.edit.position || a.national.localeCompare(b.national))
+    .slice(0, limit)
+    .map(({ national, ...rest }) => ({ national, formatted: formatAll(national, idx), ...rest }));
+  return { input, national, result, suggestions };
+}
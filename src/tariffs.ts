@@ -0,0 +1,57 @@
+import { ClassificationResult, NumberClass, PrefixRule } from "./classifyUkNumber";
+
+/**
+ * Service-charge categories for ranges where the caller pays more than a
+ * standard call (or nothing at all). Numbers outside these ranges have no band.
+ */
+export enum TariffBand {
+  FREEPHONE = "FREEPHONE",                       // 0800, 0808, 116xxx
+  SERVICE_CHARGE_LOW = "SERVICE_CHARGE_LOW",     // 084: lowest service-charge band
+  SERVICE_CHARGE_HIGH = "SERVICE_CHARGE_HIGH",   // 087: higher service-charge band
+  PREMIUM_RATE = "PREMIUM_RATE",                 // 090, 091 and other 09 ranges
+  SEXUAL_ENTERTAINMENT = "SEXUAL_ENTERTAINMENT", // 098
+  DIRECTORY_ENQUIRIES = "DIRECTORY_ENQUIRIES",   // 118xxx
+}
+
+export interface PolicyVerdict {
+  allowed: boolean;
+  reason?: string;
+}
+
+/**
+ * Tariff band for a rule. The S8/S9 sub-range designation wins when it names
+ * a band; otherwise the band follows from the prefix.
+ */
+export function tariffForRule(rule: PrefixRule): TariffBand | undefined {
+  const designation = rule.designation?.toLowerCase() ?? "";
+  if (designation.includes("sexual entertainment")) return TariffBand.SEXUAL_ENTERTAINMENT;
+  if (designation.includes("freephone")) return TariffBand.FREEPHONE;
+  if (designation.includes("directory")) return TariffBand.DIRECTORY_ENQUIRIES;
+  if (designation.includes("premium")) return TariffBand.PREMIUM_RATE;
+
+  const p = rule.prefix;
+  if (p.startsWith("080") || p.startsWith("116")) return TariffBand.FREEPHONE;
+  if (p.startsWith("084")) return TariffBand.SERVICE_CHARGE_LOW;
+  if (p.startsWith("087")) return TariffBand.SERVICE_CHARGE_HIGH;
+  if (p.startsWith("098")) return TariffBand.SEXUAL_ENTERTAINMENT;
+  if (p.startsWith("09")) return TariffBand.PREMIUM_RATE;
+  if (p.startsWith("118")) return TariffBand.DIRECTORY_ENQUIRIES;
+  return undefined;
+}
+
+/** Every band except freephone carries a service charge for the caller. */
+export function isChargedTariff(tariff?: TariffBand): boolean {
+  return tariff !== undefined && tariff !== TariffBand.FREEPHONE;
+}
+
+/**
+ * Verdict for callers that refuse to dial numbers with a service charge.
+ * Only a NUMBER_VALID result can be allowed: anything else is not diallable.
+ */
+export function blockPremiumVerdict(result: Pick<ClassificationResult, "class" | "tariff">): PolicyVerdict {
+  if (result.class !== NumberClass.NUMBER_VALID) {
+    return { allowed: false, reason: `Blocked: ${result.class} is not a diallable number` };
+  }
+  if (!isChargedTariff(result.tariff)) return { allowed: true };
+  return { allowed: false, reason: `Blocked: ${result.tariff} numbers carry a service charge` };
+}
@@ -0,0 +1,26 @@
+import type { Territory } from "./classifyUkNumber";
+
+/**
+ * Ranges in the +44 plan that serve the Crown Dependencies. Ofcom allocates
+ * them but the islands' own regulators (JCRA, GCRA, CURA) license their use,
+ * so they are not flagged in the CSVs and have to be maintained here.
+ * Anything not listed is treated as GB.
+ */
+export const TERRITORY_PREFIXES: { prefix: string; territory: Territory }[] = [
+  // Jersey
+  { prefix: "01534", territory: "JE" },
+  { prefix: "07509", territory: "JE" },
+  { prefix: "07797", territory: "JE" },
+  { prefix: "07829", territory: "JE" },
+  { prefix: "07937", territory: "JE" },
+  // Guernsey
+  { prefix: "01481", territory: "GG" },
+  { prefix: "07781", territory: "GG" },
+  { prefix: "07839", territory: "GG" },
+  { prefix: "07911", territory: "GG" },
+  // Isle of Man
+  { prefix: "01624", territory: "IM" },
+  { prefix: "07524", territory: "IM" },
+  { prefix: "07624", territory: "IM" },
+  { prefix: "07924", territory: "IM" },
+];
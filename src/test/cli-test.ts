@@ -0,0 +1,76 @@
+import { spawnSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { BULK_FIELDS } from "../bulk";
+import logger from "../logger";
+
+// Runs the built CLI (dist/cli.js) against prefixes.json on a small CSV and on stdin
+
+const CLI = path.resolve(__dirname, "..", "cli.js");
+
+const CSV = "name,phone\nAlice,020 8099 6910\nBob,000\nCarol,07700 900123\n";
+
+function assert(name: string, ok: boolean, details: object) {
+  if (!ok) {
+    logger.error(details, `✗ ${name}`);
+    process.exit(1);
+  }
+  logger.info(details, `✓ ${name}`);
+}
+
+function cli(args: string[], input?: string) {
+  const result = spawnSync(process.execPath, [CLI, ...args], { input, encoding: "utf8", timeout: 30000 });
+  return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+}
+
+(function main() {
+  const rulesPath = path.resolve(process.cwd(), "prefixes.json");
+  if (!fs.existsSync(rulesPath) || !fs.existsSync(CLI)) {
+    logger.error("prefixes.json and dist/cli.js are required. Run 'npm run build:all' first.");
+    process.exit(2);
+  }
+  const data = `--data=${rulesPath}`;
+
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "uk-number-cli-"));
+  const csvFile = path.join(tmp, "contacts.csv");
+  fs.writeFileSync(csvFile, CSV);
+
+  try {
+    // CSV input defaults to CSV output: the input columns, then the result fields
+    let run = cli([csvFile, "--column=phone", data]);
+    const lines = run.stdout.trim().split("\n");
+    assert("csv: input columns then result fields", run.status === 0 && lines[0] === ["name", "phone", ...BULK_FIELDS].join(",")
+      && lines.length === 4 && lines[1].startsWith("Alice,020 8099 6910,NUMBER_VALID,02080996910,"), { lines });
+
+    run = cli([csvFile, "--column=phone", "--format=json", data]);
+    const json = JSON.parse(run.stdout) as Record<string, string>[];
+    assert("json: one array of rows", run.status === 0 && json.length === 3
+      && json.map(r => r.class).join() === "NUMBER_VALID,NUMBER_INVALID,NUMBER_PROTECTED" && json[2].name === "Carol", { json });
+
+    run = cli([csvFile, "--column=phone", "--format=ndjson", data]);
+    const ndjson = run.stdout.trim().split("\n").map(line => JSON.parse(line));
+    assert("ndjson: one object per line", run.status === 0 && ndjson.length === 3 && ndjson[0].e164 === "+442080996910", { ndjson });
+
+    run = cli([csvFile, "--column=phone", "--format=ndjson", "--only=invalid", data]);
+    const invalid = run.stdout.trim().split("\n").map(line => JSON.parse(line));
+    assert("--only=invalid drops valid rows", run.status === 0 && invalid.map(r => r.name).join() === "Bob,Carol", { invalid });
+
+    assert("stderr summary counts every row, not only those written",
+      /^Processed 3 numbers\n/.test(run.stderr) && /NUMBER_VALID\s+1\n/.test(run.stderr)
+        && /NUMBER_INVALID\s+1\n/.test(run.stderr) && /NUMBER_PROTECTED\s+1\n/.test(run.stderr), { stderr: run.stderr });
+
+    // Plain text on stdin, one number per line
+    run = cli(["-", data], "020 8099 6910\n+1 212 555 0100\n");
+    const piped = run.stdout.trim().split("\n").map(line => JSON.parse(line));
+    assert("stdin: plain text in, ndjson out", run.status === 0 && piped.length === 2
+      && piped[0].number === "020 8099 6910" && piped[1].class === "NUMBER_NOT_UK" && piped[1].countryCode === "1", { piped });
+
+    run = cli([csvFile, "--column=mobile", data]);
+    assert("unknown column exits 2", run.status === 2 && run.stderr.includes('Column "mobile" not found'), { status: run.status, stderr: run.stderr });
+
+    logger.info("All CLI tests executed.");
+  } finally {
+    fs.rmSync(tmp, { recursive: true, force: true });
+  }
+})();
@@ -0,0 +1,164 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { readRulesFile } from "../artifact";
+import {
+  buildIndex,
+  ClassificationResult,
+  classForStatus,
+  classifyUkNumber as classifyOptimized,
+  existsRuleThatStartsWithDigits,
+  isLiveStatus,
+  normaliseToUkNational,
+  normaliseUkInput,
+  NumberClass,
+  PrefixRule,
+  resultForRule,
+  resultForUnnormalised,
+  RuleIndex,
+  Territory,
+  walkPath,
+} from "../classifyUkNumber";
+import { CompiledIndex, compileIndex } from "../compiledIndex";
+import { explainUkNumber } from "../explain";
+import logger from "../logger";
+
+// The single-pass classifier must agree with the reference implementation, on
+// both kinds of index, for every number in test-data.json and a number at each
+// rule's own length, and for each of those with a digit dropped or added.
+// explainUkNumber retraces the checks on its own, so its result is held to
+// the classifier's over the same numbers
+
+/**
+ * The reference classifier: gathers every rule on the path, then scans them
+ * in order of precedence. Slower, but each step can be checked by eye.
+ */
+function classifyByScan(national: string, idx: RuleIndex): ClassificationResult {
+  if (!national) return { class: NumberClass.NUMBER_INVALID };
+
+  let matchedRules: PrefixRule[] = [];
+  let territory: Territory = "GB";
+  walkPath(national, idx, (rules, t) => {
+    if (rules.length) matchedRules = matchedRules.concat(rules);
+    if (t) territory = t;
+  });
+
+  const len = national.length;
+
+  if (matchedRules.length) {
+    const live = matchedRules.filter(r => isLiveStatus(r.status));
+
+    // Check for exact matches first (where prefix equals the full number)
+    const exactMatch = live.find(r => r.prefix === national);
+    if (exactMatch) {
+      return resultForRule(NumberClass.NUMBER_VALID, exactMatch, territory);
+    }
+    
+    // Check for prefix matches with correct length
+    const tooShortMatch = live.find(r => r.totalLength > len);
+    if (tooShortMatch) {
+      return resultForRule(NumberClass.NUMBER_TOO_SHORT, tooShortMatch, territory);
+    }
+    
+    const validMatch = live.find(r => r.totalLength === len);
+    if (validMatch) {
+      return resultForRule(NumberClass.NUMBER_VALID, validMatch, territory);
+    }
+
+    // An allocated block matched but the number has extra digits
+    const tooLongMatch = live.find(r => r.totalLength < len);
+    if (tooLongMatch) {
+      return {
+        ...resultForRule(NumberClass.NUMBER_TOO_LONG, tooLongMatch, territory),
+        expectedLength: tooLongMatch.totalLength
+      };
+    }
+  }
+
+  // Non-diallable blocks (protected, quarantined, ...) report their status,
+  // preferring the most specific block that matches the number's length
+  for (let i = matchedRules.length - 1; i >= 0; i--) {
+    const r = matchedRules[i];
+    if (isLiveStatus(r.status) || r.totalLength !== len) continue;
+    return resultForRule(classForStatus(r.status), r, territory);
+  }
+
+  if (existsRuleThatStartsWithDigits(national, idx)) {
+    return { class: NumberClass.NUMBER_TOO_SHORT };
+  }
+
+  return { class: NumberClass.NUMBER_INVALID };
+}
+
+
+function timeRun(nationals: string[], classify: (n: string) => unknown): number {
+  const start = process.hrtime.bigint();
+  for (const n of nationals) classify(n);
+  return Number(process.hrtime.bigint() - start) / 1e6;
+}
+
+(function main() {
+  const rulesPath = path.resolve(process.cwd(), "prefixes.json");
+  const dataPath = path.resolve(process.cwd(), "test-data.json");
+  if (!fs.existsSync(rulesPath) || !fs.existsSync(dataPath)) {
+    logger.error("prefixes.json and test-data.json are required. Run 'npm run build:all' and 'yarn test:performance' first.");
+    process.exit(2);
+  }
+
+  const rules = readRulesFile(rulesPath);
+  const trie = buildIndex(rules);
+  const indexes: [string, RuleIndex][] = [["trie", trie], ["compiled index", new CompiledIndex(compileIndex(trie))]];
+  const { testCases } = JSON.parse(fs.readFileSync(dataPath, "utf8")) as { testCases: { number: string }[] };
+
+  const nationals: string[] = [];
+  const inputs = testCases
+    .map(c => normaliseToUkNational(c.number))
+    .concat(rules.map(r => r.prefix.padEnd(r.totalLength, "0")));
+  for (const national of inputs) {
+    if (!national) continue;
+    nationals.push(national, national.slice(0, -1), national + "0");
+  }
+
+  // The raw test inputs too, so numbers that fail normalisation are covered
+  const explained = testCases.map(c => c.number).concat(nationals);
+
+  for (const [name, idx] of indexes) {
+    let mismatches = 0;
+    for (const national of nationals) {
+      const expected = JSON.stringify(classifyByScan(national, idx));
+      const actual = JSON.stringify(classifyOptimized(national, idx));
+      if (actual !== expected) {
+        if (++mismatches <= 10) logger.error({ national, expected, actual }, `✗ ${national}: classifiers disagree on the ${name}`);
+      }
+    }
+    if (mismatches) {
+      logger.error({ mismatches, checked: nationals.length }, `✗ Optimized classifier differs from reference on the ${name}`);
+      process.exit(1);
+    }
+
+    let explainMismatches = 0;
+    for (const input of explained) {
+      const normalised = normaliseUkInput(input);
+      const expected = JSON.stringify(
+        normalised.national ? classifyOptimized(normalised.national, idx) : resultForUnnormalised(normalised)
+      );
+      const actual = JSON.stringify(explainUkNumber(input, idx).result);
+      if (actual !== expected) {
+        if (++explainMismatches <= 10) logger.error({ input, expected, actual }, `✗ ${input}: explanation disagrees on the ${name}`);
+      }
+    }
+    if (explainMismatches) {
+      logger.error({ mismatches: explainMismatches, checked: explained.length }, `✗ explainUkNumber differs from the classifier on the ${name}`);
+      process.exit(1);
+    }
+    logger.info({ checked: explained.length }, `✓ ${explained.length} explanations agree with the classifier on the ${name}`);
+
+    logger.info(
+      {
+        checked: nationals.length,
+        referenceMs: timeRun(nationals, n => classifyByScan(n, idx)).toFixed(1),
+        optimizedMs: timeRun(nationals, n => classifyOptimized(n, idx)).toFixed(1),
+      },
+      `✓ ${nationals.length} numbers classified identically on the ${name}`
+    );
+  }
+})();
@@ -1,6 +1,9 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
-import { buildIndex, classifyUkNumber, normaliseToUkNational, NumberClass, PrefixRule, ClassificationResult } from "../classifyUkNumber";
+import { buildIndex, classifyUkNumber, normaliseToUkNational, NumberClass, PrefixRule, ClassificationResult, RuleIndex } from "../classifyUkNumber";
+import { parseArtifact, readRulesFile } from "../artifact";
+import { CompiledIndex, compileIndex, indexPathFor, loadCompiledIndex } from "../compiledIndex";
+import { AllocatedBlock, allocatedBlocks } from "../ranges";
 import logger from "../logger";
 
 interface TestCase {
@@ -34,36 +37,20 @@ function classify(input: string, idx: any): ClassificationResult {
   return classifyUkNumber(national, idx);
 }
 
-function generateTestNumbers(rules: PrefixRule[]): TestCase[] {
+function generateTestNumbers(idx: RuleIndex): TestCase[] {
   const testCases: TestCase[] = [];
   
-  // Group rules by status for easier sampling
-  const rulesByStatus = new Map<string, PrefixRule[]>();
-  for (const rule of rules) {
-    if (!rulesByStatus.has(rule.status)) {
-      rulesByStatus.set(rule.status, []);
-    }
-    rulesByStatus.get(rule.status)!.push(rule);
-  }
+  // Every Allocated and Allocated(Closed Range) block, straight from the index
+  const validBlocks = Array.from(allocatedBlocks("", idx));
   
-  // Get samples of different statuses
-  const allocatedRules = rulesByStatus.get("Allocated") || [];
-  const freeRules = rulesByStatus.get("Free") || [];
-  const protectedRules = rulesByStatus.get("Protected") || [];
-  const closedRules = rulesByStatus.get("Allocated(Closed Range)") || [];
-  const quarantinedRules = rulesByStatus.get("Quarantined") || [];
-  const designatedRules = rulesByStatus.get("Designated") || [];
-  const reservedRules = rulesByStatus.get("Reserved") || [];
-  
-  // Generate 9,000 valid numbers (90%) - only from Allocated and Allocated(Closed Range)
-  const validRules = [...allocatedRules, ...closedRules];
+  // Generate 9,000 valid numbers (90%)
   for (let i = 0; i < 9000; i++) {
-    const rule = validRules[Math.floor(Math.random() * validRules.length)];
-    const number = generateValidNumberFromRule(rule);
+    const block = validBlocks[Math.floor(Math.random() * validBlocks.length)];
+    const number = generateValidNumberFromBlock(block);
     testCases.push({
       number,
       expectedClass: NumberClass.NUMBER_VALID,
-      description: `Valid ${rule.status} number`
+      description: `Valid ${block.status} number`
     });
   }
   
@@ -72,8 +59,8 @@ function generateTestNumbers(rules: PrefixRule[]): TestCase[] {
   
   // 200 too short numbers (guaranteed to be too short)
   for (let i = 0; i < 200; i++) {
-    const rule = validRules[Math.floor(Math.random() * validRules.length)];
-    const number = generateShortNumberFromRule(rule);
+    const block = validBlocks[Math.floor(Math.random() * validBlocks.length)];
+    const number = generateShortNumberFromBlock(block);
     invalidCases.push({
       number,
       expectedClass: NumberClass.NUMBER_TOO_SHORT,
@@ -119,9 +106,9 @@ function generateTestNumbers(rules: PrefixRule[]): TestCase[] {
   return testCases.sort(() => Math.random() - 0.5);
 }
 
-function generateValidNumberFromRule(rule: PrefixRule): string {
-  const prefix = rule.prefix;
-  const remainingLength = rule.totalLength - prefix.length;
+function generateValidNumberFromBlock(block: AllocatedBlock): string {
+  const prefix = block.prefix;
+  const remainingLength = block.totalLength - prefix.length;
   let number = prefix;
   
   // Generate random digits for the remaining length
@@ -141,9 +128,9 @@ function generateValidNumberFromRule(rule: PrefixRule): string {
   return formats[Math.floor(Math.random() * formats.length)];
 }
 
-function generateShortNumberFromRule(rule: PrefixRule): string {
-  const prefix = rule.prefix;
-  const remainingLength = Math.max(1, rule.totalLength - prefix.length - 1); // Make it shorter
+function generateShortNumberFromBlock(block: AllocatedBlock): string {
+  const prefix = block.prefix;
+  const remainingLength = Math.max(1, block.totalLength - prefix.length - 1); // Make it shorter
   let number = prefix;
   
   for (let i = 0; i < remainingLength; i++) {
@@ -367,6 +354,55 @@ function saveTestData(testCases: TestCase[], results: TestResult[]): void {
   logger.info("Test data saved to test-data.json");
 }
 
+interface LoadStats {
+  loadTimeMs: number;
+  heapUsedMB: number;     // growth of the JS heap
+  arrayBuffersMB: number; // growth of off-heap buffers (the compiled index lives here)
+}
+
+function settledMemory(): NodeJS.MemoryUsage {
+  const gc = (global as { gc?: () => void }).gc;
+  if (gc) gc();
+  return process.memoryUsage();
+}
+
+function measureLoad<T>(load: () => T): { value: T; stats: LoadStats } {
+  const before = settledMemory();
+  const start = process.hrtime.bigint();
+  const value = load();
+  const loadTimeMs = Number(process.hrtime.bigint() - start) / 1e6;
+  const after = settledMemory();
+  const mb = (n: number) => Number((n / 1024 / 1024).toFixed(1));
+  return {
+    value,
+    stats: {
+      loadTimeMs: Number(loadTimeMs.toFixed(1)),
+      heapUsedMB: mb(after.heapUsed - before.heapUsed),
+      arrayBuffersMB: mb(after.arrayBuffers - before.arrayBuffers),
+    },
+  };
+}
+
+/** Cold-start cost of the JSON + buildIndex path against the compiled index. */
+function benchmarkLoad(rulesPath: string): CompiledIndex {
+  if (!(global as { gc?: () => void }).gc) {
+    logger.warn("Run node with --expose-gc for stable heap figures");
+  }
+
+  const indexPath = indexPathFor(rulesPath);
+  const artifact = parseArtifact(fs.readFileSync(rulesPath, "utf8"));
+  if (!fs.existsSync(indexPath) || loadCompiledIndex(indexPath).checksum !== artifact.checksum) {
+    logger.info({ indexPath }, "Compiling index for the load benchmark...");
+    fs.writeFileSync(indexPath, compileIndex(buildIndex(artifact.rules), artifact.checksum));
+  }
+
+  const json = measureLoad(() => buildIndex(readRulesFile(rulesPath)));
+  logger.info(json.stats, "Load: prefixes.json + buildIndex");
+  const compiled = measureLoad(() => loadCompiledIndex(indexPath));
+  logger.info({ ...compiled.stats, bytes: fs.statSync(indexPath).size }, "Load: compiled index");
+  return compiled.value;
+}
+
 (async function main() {
   const rulesPath = path.resolve(process.cwd(), "prefixes.json");
   if (!fs.existsSync(rulesPath)) {
@@ -375,16 +411,16 @@ function saveTestData(testCases: TestCase[], results: TestResult[]): void {
   }
   
   logger.info("Loading rules...");
-  const rules: PrefixRule[] = JSON.parse(fs.readFileSync(rulesPath, "utf8"));
+  const rules: PrefixRule[] = readRulesFile(rulesPath);
   logger.info({ ruleCount: rules.length }, "Loaded rules");
   
-  logger.info("Generating test cases...");
-  let testCases = generateTestNumbers(rules);
-  logger.info({ testCaseCount: testCases.length }, "Generated test cases");
-  
   logger.info("Building index...");
   const idx = buildIndex(rules);
   
+  logger.info("Generating test cases...");
+  let testCases = generateTestNumbers(idx);
+  logger.info({ testCaseCount: testCases.length }, "Generated test cases");
+  
   logger.info("Validating test cases for 100% accuracy...");
   testCases = validateTestCases(testCases, idx);
   logger.info({ validatedTestCount: testCases.length }, "Validated test cases");
@@ -407,6 +443,15 @@ function saveTestData(testCases: TestCase[], results: TestResult[]): void {
   }
   
   logResults(stats, results);
+
+  logger.info("Benchmarking index load...");
+  const compiled = benchmarkLoad(rulesPath);
+  const compiledStats = runPerformanceTest(testCases, compiled);
+  logger.info({
+    correct: compiledStats.correct,
+    totalTimeMs: compiledStats.totalTimeMs,
+    testsPerSecond: (compiledStats.totalTests / (compiledStats.totalTimeMs / 1000)).toFixed(0)
+  }, "Compiled index classification");
   saveTestData(testCases, results);
   
   // Exit with error code if accuracy is below 95%
@@ -1,6 +1,7 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
 import { buildIndex, classifyUkNumber, normaliseToUkNational, NumberClass, PrefixRule, ClassificationResult } from "../classifyUkNumber";
+import { readRulesFile } from "../artifact";
 import logger from "../logger";
 
 interface TestCase {
@@ -194,7 +195,7 @@ function runPerformanceTest(testCases: TestCase[], idx: any): void {
   }
   
   logger.info("Loading rules...");
-  const rules: PrefixRule[] = JSON.parse(fs.readFileSync(rulesPath, "utf8"));
+  const rules: PrefixRule[] = readRulesFile(rulesPath);
   logger.info({ ruleCount: rules.length }, "Loaded rules");
   
   logger.info("Generating test cases...");
@@ -0,0 +1,119 @@
+import * as fs from "node:fs";
+import * as http from "node:http";
+import * as os from "node:os";
+import * as path from "node:path";
+import { AddressInfo } from "node:net";
+import { NumberClass } from "../classifyUkNumber";
+import { parseArtifact } from "../artifact";
+import { Dataset, loadDataset } from "../dataset";
+import { CompiledIndex, indexPathFor, loadCompiledIndex } from "../compiledIndex";
+import { FILES } from "../download";
+import { DataRefresher, nextCronTime, RefreshOutcome } from "../refresh";
+import logger from "../logger";
+
+// Offline check of the scheduled refresh: Ofcom is replaced by a local fixture server
+
+const HEADER = "NMS Number Block: Number Block,Block Status,CP Name\n";
+
+function s1Rows(count: number, londonStatus = "Allocated"): string {
+  let csv = HEADER + `"20 8099 6",${londonStatus},BT\n`;
+  for (let i = 0; i < count; i++) csv += `"114 ${String(100 + i)} 0",Allocated,BT\n`;
+  return csv;
+}
+
+function assert(name: string, ok: boolean, details: object) {
+  if (!ok) {
+    logger.error(details, `✗ ${name}`);
+    process.exit(1);
+  }
+  logger.info(details, `✓ ${name}`);
+}
+
+(async function main() {
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "uk-number-refresh-"));
+  const fixtures = path.join(tmp, "fixtures");
+  fs.mkdirSync(fixtures);
+  for (const { name } of FILES) fs.writeFileSync(path.join(fixtures, decodeURIComponent(name)), HEADER);
+  fs.writeFileSync(path.join(fixtures, "s1.csv"), s1Rows(20));
+
+  const server = http.createServer((req, res) => {
+    const file = path.join(fixtures, decodeURIComponent(path.basename(req.url ?? "")));
+    if (!fs.existsSync(file)) {
+      res.writeHead(404).end();
+      return;
+    }
+    res.end(fs.readFileSync(file));
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const rulesPath = path.join(tmp, "prefixes.json");
+  let active: Dataset | null = null;
+  const refresher = new DataRefresher({
+    schedule: "0 6 * * 2",
+    rulesPath,
+    historyDir: path.join(tmp, "history"),
+    keep: 2,
+    maxChange: 0.1,
+    baseUrl: `http://127.0.0.1:${port}/`,
+    dataDir: path.join(tmp, "data"),
+    activate: async () => {
+      active = await loadDataset(rulesPath, {
+        minRules: 10,
+        canaries: [{ number: "02080996910", expected: NumberClass.NUMBER_VALID }],
+      });
+      return active;
+    },
+  });
+
+  try {
+    const next = nextCronTime("0 6 * * 2", new Date(2026, 9, 19, 12, 0));
+    assert("cron: next Tuesday 06:00", next.getTime() === new Date(2026, 9, 20, 6, 0).getTime(), { next });
+
+    let outcome: RefreshOutcome = await refresher.refreshNow();
+    assert("first refresh activates", outcome.status === "activated" && active !== null, { outcome });
+    const firstVersion = outcome.version;
+    const firstContent = fs.readFileSync(rulesPath, "utf8");
+    const firstIndex = fs.readFileSync(indexPathFor(rulesPath));
+    assert("compiled index is written with the rules", new CompiledIndex(firstIndex).checksum === parseArtifact(firstContent).checksum, {});
+
+    // A sheet that cannot be downloaded fails the refresh instead of being left out
+    const s10b = path.join(fixtures, "s10 (type b).csv");
+    fs.renameSync(s10b, `${s10b}.away`);
+    const failure = await refresher.refreshNow().then(() => null, (error: Error) => error);
+    fs.renameSync(`${s10b}.away`, s10b);
+    assert("missing sheet fails the refresh", failure?.message.startsWith("Could not pull s10 (type b).csv") === true
+      && fs.readFileSync(rulesPath, "utf8") === firstContent, { error: failure?.message });
+
+    // Doubling the rule count is beyond the 10% threshold
+    fs.writeFileSync(path.join(fixtures, "s1.csv"), s1Rows(40));
+    outcome = await refresher.refreshNow();
+    assert("large rule count change is refused", outcome.status === "rejected", { outcome });
+    assert("refused dataset is not written", fs.readFileSync(rulesPath, "utf8") === firstContent, {});
+
+    // Same size, but the canary number's block is withdrawn
+    fs.writeFileSync(path.join(fixtures, "s1.csv"), s1Rows(20, "Withdrawn"));
+    outcome = await refresher.refreshNow();
+    assert("canary failure rolls back", outcome.status === "rolled_back", { outcome });
+    assert("rolled back to previous dataset", fs.readFileSync(rulesPath, "utf8") === firstContent
+      && fs.readFileSync(indexPathFor(rulesPath)).equals(firstIndex) && active!.version === firstVersion, { version: active!.version });
+
+    // Only the last `keep` good datasets stay on disk
+    for (const count of [21, 22]) {
+      fs.writeFileSync(path.join(fixtures, "s1.csv"), s1Rows(count));
+      outcome = await refresher.refreshNow();
+      assert(`refresh with ${count + 1} S1 rows activates`, outcome.status === "activated", { outcome });
+    }
+    assert("history keeps 2 datasets", refresher.history().length === 2, { history: refresher.history() });
+    assert("compiled index follows the activated rules", loadCompiledIndex(indexPathFor(rulesPath)).checksum === parseArtifact(fs.readFileSync(rulesPath, "utf8")).checksum
+      && !fs.readFileSync(indexPathFor(rulesPath)).equals(firstIndex), {});
+
+    logger.info("All refresh tests executed.");
+  } finally {
+    server.close();
+    fs.rmSync(tmp, { recursive: true, force: true });
+  }
+})().catch((e) => {
+  logger.error({ error: e }, "Refresh test failed");
+  process.exit(1);
+});
@@ -1,6 +1,7 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
 import { buildIndex, classifyUkNumber, normaliseToUkNational, NumberClass, PrefixRule, ClassificationResult } from "../classifyUkNumber";
+import { readRulesFile } from "../artifact";
 import logger from "../logger";
 
 interface TestCase {
@@ -702,7 +703,7 @@ function saveTestData(testCases: TestCase[], results: TestResult[]): void {
   }
   
   logger.info("Loading rules for test generation...");
-  const rules: PrefixRule[] = JSON.parse(fs.readFileSync(rulesPath, "utf8"));
+  const rules: PrefixRule[] = readRulesFile(rulesPath);
   logger.info({ ruleCount: rules.length }, "Loaded rules");
   
   // Create remote validator
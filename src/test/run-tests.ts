@@ -1,7 +1,26 @@
 
+import { execFileSync } from "node:child_process";
+import * as os from "node:os";
 import * as fs from "node:fs";
 import * as path from "node:path";
-import { buildIndex, classifyUkNumber, normaliseToUkNational, NumberClass, PrefixRule, ClassificationResult } from "../classifyUkNumber";
+import { pathToFileURL } from "node:url";
+import { buildIndex, classifyUkNumber, lookupUkArea, normaliseToUkNational, NumberClass, NumberType, PrefixRule, ClassificationResult, RuleIndex, TariffBand } from "../classifyUkNumber";
+import { CompiledIndex, compileIndex } from "../compiledIndex";
+import { formatUkNumber, NumberFormat } from "../formatUkNumber";
+import * as bundledLib from "../bundled";
+import * as lib from "../index";
+import { createValidator } from "../index";
+import { normaliseUkInput, Transformation } from "../normalise";
+import { FilePortingSource } from "../porting";
+import { providerDirectory } from "../providers";
+import { allocatedBlocks } from "../ranges";
+import { DecisionStep, explainUkNumber } from "../explain";
+import { suggestUkNumber } from "../suggest";
+import { validatePartialUkNumber } from "../partial";
+import { ArtifactError, createArtifact, parseArtifact, readRulesFile, serialiseArtifact } from "../artifact";
+import { DatasetValidationError, DEFAULT_CANARIES, loadDataset } from "../dataset";
+import { blockPremiumVerdict } from "../tariffs";
+import { diffRules } from "../diff";
 import logger from "../logger";
 
 function classify(input: string, rules: PrefixRule[]): ClassificationResult {
@@ -21,13 +40,32 @@ function assertEq(name: string, result: ClassificationResult, expectedClass: Num
   }
 }
 
-(function main() {
+function assertType(name: string, result: ClassificationResult, expectedType: NumberType) {
+  if (result.numberType !== expectedType) {
+    logger.error({ testName: name, expected: expectedType, actual: result.numberType }, `✗ ${name}: expected type ${expectedType}, got ${result.numberType}`);
+    process.exit(1);
+  } else {
+    logger.info({ testName: name, numberType: result.numberType }, `✓ ${name}: ${result.numberType}`);
+  }
+}
+
+function assertFormat(national: string, style: NumberFormat, expected: string, idx?: RuleIndex, indexName = "no index") {
+  const actual = formatUkNumber(national, style, idx);
+  if (actual !== expected) {
+    logger.error({ national, style, indexName, expected, actual }, `✗ ${national} ${style} (${indexName}): expected "${expected}", got "${actual}"`);
+    process.exit(1);
+  } else {
+    logger.info({ national, style, indexName, formatted: actual }, `✓ ${national} ${style} (${indexName}): ${actual}`);
+  }
+}
+
+(async function main() {
   const rulesPath = path.resolve(process.cwd(), "prefixes.json");
   if (!fs.existsSync(rulesPath)) {
     logger.error("prefixes.json not found. Run 'npm run build:all' first.");
     process.exit(2);
   }
-  const rules: PrefixRule[] = JSON.parse(fs.readFileSync(rulesPath, "utf8"));
+  const rules: PrefixRule[] = readRulesFile(rulesPath);
 
   assertEq(
     "020 8099 6910",
@@ -39,10 +77,317 @@ function assertEq(name: string, result: ClassificationResult, expectedClass: Num
   assertEq("07418534", classify("07418534", rules), NumberClass.NUMBER_TOO_SHORT);
   assertEq("000", classify("000", rules), NumberClass.NUMBER_INVALID);
   assertEq("02080996910", classify("02080996910", rules),  NumberClass.NUMBER_VALID );
-  // Protected range example should be invalid
-  assertEq("0191 498 0123", classify("0191 498 0123", rules),  NumberClass.NUMBER_INVALID );
+  assertEq("020809969101", classify("020809969101", rules), NumberClass.NUMBER_TOO_LONG);
+  // Blocks that are not diallable report their status rather than plain invalid
+  const statusRules: PrefixRule[] = [
+    { prefix: "01914980", totalLength: 11, status: "Protected", source: "S1" },
+    { prefix: "07700900", totalLength: 11, status: "Protected", source: "S7" },
+    { prefix: "0208095", totalLength: 11, status: "Reserved", source: "S1" },
+    { prefix: "0208098", totalLength: 11, status: "Quarantined", provider: "Old CP", source: "S1" },
+    { prefix: "0208094", totalLength: 11, status: "Withdrawn", source: "S1" },
+    { prefix: "0208097", totalLength: 11, status: "Free", source: "S1" },
+    { prefix: "0208099", totalLength: 11, status: "Allocated", provider: "BT", source: "S1" },
+  ];
+  assertEq("0191 498 0123", classify("0191 498 0123", statusRules), NumberClass.NUMBER_PROTECTED);
+  assertEq("07700 900123", classify("07700 900123", statusRules), NumberClass.NUMBER_PROTECTED);
+  assertEq("020 8095 0000", classify("020 8095 0000", statusRules), NumberClass.NUMBER_RESERVED);
+  assertEq("020 8098 0000", classify("020 8098 0000", statusRules), NumberClass.NUMBER_QUARANTINED);
+  assertEq("020 8094 0000", classify("020 8094 0000", statusRules), NumberClass.NUMBER_WITHDRAWN);
+  assertEq("020 8097 0000", classify("020 8097 0000", statusRules), NumberClass.NUMBER_UNALLOCATED);
+  assertEq("020 8093 0000", classify("020 8093 0000", statusRules), NumberClass.NUMBER_INVALID);
+  // A status block of another length does not decide the class
+  assertEq("020 8098 00001", classify("020 8098 00001", statusRules), NumberClass.NUMBER_INVALID);
   // Test standard UK number formats via international prefixes
   assertEq("0044 20 8099 6910", classify("0044 20 8099 6910", rules), NumberClass.NUMBER_VALID);
+  // Number type comes from the Ofcom sheet the matching rule was taken from
+  assertType("020 8099 6910 type", classify("020 8099 6910", rules), NumberType.GEOGRAPHIC);
+  assertType("07418534 type", classify("07418534", rules), NumberType.MOBILE);
+  // Short codes are diallable on their own rather than too short
+  assertEq("999", classify("999", rules), NumberClass.NUMBER_VALID);
+  assertType("999 type", classify("999", rules), NumberType.EMERGENCY);
+  assertType("116 123 type", classify("116 123", rules), NumberType.HARMONISED_SERVICE);
+  // Crown Dependency ranges carry their own territory
+  const jersey = classify("01534 123456", rules);
+  if (jersey.territory !== "JE" || classify("020 8099 6910", rules).territory !== "GB") {
+    logger.error({ result: jersey }, "✗ 01534 123456 territory: expected JE");
+    process.exit(1);
+  }
+  logger.info({ territory: jersey.territory }, `✓ 01534 123456 territory: ${jersey.territory}`);
+  // Service-charge ranges report their tariff band
+  const premium = classify("0909 876 5432", rules);
+  const freephone = classify("0800 123 4567", rules);
+  if (premium.tariff !== TariffBand.PREMIUM_RATE || freephone.freephone !== true) {
+    logger.error({ premium, freephone }, "✗ tariff: expected PREMIUM_RATE for 0909 and freephone for 0800");
+    process.exit(1);
+  }
+  logger.info({ premium: premium.tariff, freephone: freephone.tariff }, `✓ tariff: 0909 ${premium.tariff}, 0800 ${freephone.tariff}`);
+  // blockPremium allows only valid numbers without a service charge
+  const verdicts = {
+    freephone: blockPremiumVerdict(freephone),
+    premium: blockPremiumVerdict(premium),
+    geographic: blockPremiumVerdict(classify("020 8099 6910", rules)),
+    invalid: blockPremiumVerdict(classify("000", rules)),
+    protected: blockPremiumVerdict(classify("07700 900123", statusRules)),
+    unallocated: blockPremiumVerdict(classify("020 8097 0000", statusRules)),
+    foreign: blockPremiumVerdict(createValidator({ rules }).validate("+1 212 555 0100")),
+  };
+  const wrongVerdicts = Object.entries(verdicts).filter(([name, v]) => v.allowed !== (name === "freephone" || name === "geographic"));
+  if (wrongVerdicts.length || verdicts.invalid.reason !== "Blocked: NUMBER_INVALID is not a diallable number") {
+    logger.error({ verdicts }, `✗ blockPremium: wrong verdict for ${wrongVerdicts.map(([name]) => name).join(", ")}`);
+    process.exit(1);
+  }
+  logger.info({ verdicts }, "✓ blockPremium: only valid uncharged numbers allowed");
+  // Dataset diffs group each kind of change, and do not pair up blocks listed twice
+  const block = (prefix: string, status: string, provider?: string, source: PrefixRule["source"] = "S1"): PrefixRule =>
+    ({ prefix, totalLength: 11, status, source, ...(provider && { provider }) });
+  const diff = diffRules(
+    [
+      block("0201111", "Free"),
+      block("0202222", "Allocated", "BT"),
+      block("0203333", "Allocated", "BT"),
+      block("0204444", "Reserved"),
+      block("0205555", "Allocated", "BT"),
+      block("0205555", "Allocated", "Sky"),
+      block("0800111", "Allocated", "BT", "S8"),
+      block("0800111", "Allocated", "BT", "S9"),
+    ],
+    [
+      block("0201111", "Allocated", "Gamma"),
+      block("0202222", "Quarantined", "BT"),
+      block("0203333", "Allocated", "Virgin Media"),
+      block("0204444", "Protected"),
+      block("0205555", "Allocated", "Sky"),
+      block("0800111", "Allocated", "BT", "S8"),
+      block("0800111", "Allocated", "Gamma", "S9"),
+    ]
+  );
+  const geographic = diff.byNumberType[NumberType.GEOGRAPHIC];
+  const prefixes = (changes?: { prefix: string }[]) => (changes ?? []).map(c => c.prefix).join(",");
+  if (JSON.stringify(diff.summary) !== JSON.stringify({ allocated: 1, withdrawn: 1, providerChanges: 2, statusChanges: 3 })
+      || prefixes(geographic?.allocated) !== "0201111" || prefixes(geographic?.withdrawn) !== "0202222"
+      || prefixes(geographic?.providerChanges) !== "0203333" || prefixes(diff.byNumberType[NumberType.PREMIUM_RATE]?.providerChanges) !== "0800111"
+      || prefixes(geographic?.statusChanges) !== "0201111,0202222,0204444"
+      || diff.duplicates.length !== 1 || diff.duplicates[0].prefix !== "0205555" || diff.duplicates[0].before !== 2) {
+    logger.error({ diff }, "✗ diffRules: unexpected change groups");
+    process.exit(1);
+  }
+  logger.info({ summary: diff.summary, duplicates: diff.duplicates }, "✓ diffRules: allocated, withdrawn, provider and status changes, duplicates reported");
+  // Artifacts are checksum-verified on load, and only the current schema is served
+  const artifact = createArtifact(rules, []);
+  const tampered = {
+    checksum: serialiseArtifact({ ...artifact, checksum: "0".repeat(64) }),
+    rules: serialiseArtifact({ ...artifact, rules: [{ ...rules[0], provider: "Someone Else" }, ...rules.slice(1)] }),
+  };
+  for (const [name, raw] of Object.entries(tampered)) {
+    let rejected = false;
+    try {
+      parseArtifact(raw);
+    } catch (error) {
+      rejected = error instanceof ArtifactError;
+    }
+    if (!rejected) {
+      logger.error({ name }, `✗ parseArtifact: accepted an artifact with a tampered ${name}`);
+      process.exit(1);
+    }
+  }
+  const artifactFile = path.join(os.tmpdir(), `prefixes-${process.pid}.json`);
+  const loadChecks = { minRules: 1, canaries: DEFAULT_CANARIES };
+  const artifactCases: [string, string, boolean][] = [
+    ["schema 2", serialiseArtifact(artifact), true],
+    ["tampered checksum", tampered.checksum, false],
+    ["schema 1", JSON.stringify(rules), false],
+    ["schema 3", serialiseArtifact({ ...artifact, schemaVersion: 3 }), false],
+  ];
+  for (const [name, raw, loads] of artifactCases) {
+    fs.writeFileSync(artifactFile, raw);
+    let loaded: boolean;
+    try {
+      loaded = (await loadDataset(artifactFile, loadChecks)).metadata.checksum === artifact.checksum;
+    } catch (error) {
+      if (!(error instanceof DatasetValidationError)) throw error;
+      loaded = false;
+    }
+    if (loaded !== loads) {
+      fs.unlinkSync(artifactFile);
+      logger.error({ name }, `✗ loadDataset: ${name} should ${loads ? "load" : "be refused"}`);
+      process.exit(1);
+    }
+  }
+  fs.unlinkSync(artifactFile);
+  logger.info("✓ artifacts: schema 2 loads; tampered checksum or rules, schema 1 and schema 3 refused");
+  // Geographic numbers split into area code and local number
+  const area = lookupUkArea("02080996910", buildIndex(rules));
+  if (area?.areaCode !== "020" || area.localNumber !== "80996910") {
+    logger.error({ area }, "✗ 020 8099 6910 area: expected 020 / 80996910");
+    process.exit(1);
+  }
+  logger.info({ area }, `✓ 020 8099 6910 area: ${area.areaCode} ${area.localNumber} (${area.locality})`);
+  // A compiled index answers exactly as the trie it was compiled from
+  const trie = buildIndex(rules);
+  const compiled = new CompiledIndex(compileIndex(trie));
+  for (const n of ["02080996910", "020809969101", "0151", "000", "01914980123", "01534123456", "09098765432", "999", "116123"]) {
+    const expected = JSON.stringify([classifyUkNumber(n, trie), lookupUkArea(n, trie)]);
+    const actual = JSON.stringify([classifyUkNumber(n, compiled), lookupUkArea(n, compiled)]);
+    if (actual !== expected) {
+      logger.error({ number: n, expected, actual }, `✗ ${n} compiled index: results differ`);
+      process.exit(1);
+    }
+  }
+  logger.info({ nodes: compiled.nodeCount, rules: compiled.ruleCount }, "✓ compiled index matches trie");
+  // Given an index, geographic numbers are grouped by the area code of the rule they match
+  const indexes: [string, RuleIndex][] = [["trie", trie], ["compiled index", compiled]];
+  for (const [name, idx] of indexes) {
+    assertFormat("02080996910", NumberFormat.NATIONAL, "020 8099 6910", idx, name);
+    assertFormat("01144960123", NumberFormat.NATIONAL, "0114 496 0123", idx, name);
+    assertFormat("01914980123", NumberFormat.INTERNATIONAL, "+44 191 498 0123", idx, name);
+    assertFormat("0169772345", NumberFormat.NATIONAL, "016977 2345", idx, name);
+    assertFormat("01534123456", NumberFormat.NATIONAL, "01534 123456", idx, name);
+  }
+  // A sub-area rule overrides the built-in list of six-digit codes
+  const subArea = buildIndex([
+    ...rules,
+    { prefix: "0169771", totalLength: 10, status: "Allocated", provider: "BT", source: "S1", areaCode: "01697", locality: "Brampton" },
+  ]);
+  assertFormat("0169771234", NumberFormat.NATIONAL, "016977 1234");
+  assertFormat("0169771234", NumberFormat.NATIONAL, "01697 71234", subArea, "trie");
+  assertFormat("0169771234", NumberFormat.NATIONAL, "01697 71234", new CompiledIndex(compileIndex(subArea)), "compiled index");
+  // Explanations reach the same result as the classifier, and show their working
+  for (const n of ["02080996910", "020809969101", "0151", "000", "01914980123", "999", "hello"]) {
+    const explanation = explainUkNumber(n, trie);
+    const national = normaliseToUkNational(n);
+    const expected = JSON.stringify(national ? classifyUkNumber(national, trie) : { class: NumberClass.NUMBER_INVALID });
+    if (JSON.stringify(explanation.result) !== expected || !explanation.normalisation.length) {
+      logger.error({ number: n, expected, explanation }, `✗ ${n} explanation: result differs from classifyUkNumber`);
+      process.exit(1);
+    }
+  }
+  const explained = explainUkNumber("+44 20 8099 6910", trie);
+  const decided = explained.decision[explained.decision.length - 1];
+  if (decided?.step !== DecisionStep.LENGTH_MATCH || !decided.matched || !explained.matched.length
+      || explained.rejected.length !== explained.matched.length - 1) {
+    logger.error({ explained }, "✗ +44 20 8099 6910 explanation: expected a length match on one rule");
+    process.exit(1);
+  }
+  logger.info({ decision: explained.decision }, `✓ explanation: ${decided.step} on ${decided.prefix}`);
+  // Near misses get the valid number one edit away, and valid numbers get nothing
+  const swapped = suggestUkNumber("020 8096 9910", trie).suggestions[0];
+  const noTrunk = suggestUkNumber("2080996910", trie).suggestions[0];
+  if (swapped?.national !== "02080996910" || swapped.edit.type !== "transposition" || noTrunk?.national !== "02080996910"
+      || suggestUkNumber("02080996910", trie).suggestions.length) {
+    logger.error({ swapped, noTrunk }, "✗ suggestions: expected 02080996910 for a swapped pair and a dropped trunk 0");
+    process.exit(1);
+  }
+  logger.info({ suggestion: swapped }, `✓ suggestions: 020 8096 9910 -> ${swapped.formatted.national}`);
+  // Partial input reports the digits still to come, from either index
+  const typing = validatePartialUkNumber("+44 20", trie);
+  if (typing.minRemaining !== 8 || typing.maxRemaining !== 8 || typing.numberType !== NumberType.GEOGRAPHIC
+      || typing.formatHint !== "020 XXXX XXXX" || validatePartialUkNumber("020809969101", trie).possible
+      || JSON.stringify(validatePartialUkNumber("020", compiled)) !== JSON.stringify(validatePartialUkNumber("020", trie))) {
+    logger.error({ typing }, "✗ partial +44 20: expected 8 more geographic digits");
+    process.exit(1);
+  }
+  logger.info({ typing }, `✓ partial +44 20: ${typing.minRemaining} more digits, ${typing.formatHint}`);
+  // Library facade
+  const validator = createValidator({ rules });
+  const validated = validator.validate("+44 20 8099 6910");
+  if (!validated.valid || validated.national !== "02080996910" || validator.format("020 8099 6910") !== "+442080996910"
+      || validator.lookup("02080996910")?.areaCode !== "020" || validator.validate("hello").national !== null) {
+    logger.error({ validated }, "✗ createValidator: unexpected results");
+    process.exit(1);
+  }
+  logger.info({ validated }, "✓ createValidator validate/normalise/format/lookup");
+  // The ESM entry points name every export of the CommonJS build they wrap
+  const esmRoot = path.resolve(__dirname, "..", "..", "esm");
+  for (const [entry, cjs] of [["index.mjs", lib], ["bundled.mjs", bundledLib]] as const) {
+    const url = pathToFileURL(path.join(esmRoot, entry)).href;
+    const esmNames: string[] = JSON.parse(
+      execFileSync(process.execPath, ["--input-type=module", "-e", `console.log(JSON.stringify(Object.keys(await import(${JSON.stringify(url)}))))`], { encoding: "utf8" })
+    );
+    const missing = Object.keys(cjs).filter(name => !esmNames.includes(name));
+    if (missing.length) {
+      logger.error({ entry, missing }, `✗ esm/${entry} does not re-export ${missing.join(", ")}`);
+      process.exit(1);
+    }
+    logger.info({ entry, exports: esmNames.length }, `✓ esm/${entry} re-exports all ${esmNames.length} names`);
+  }
+  // Foreign numbers, the written-out trunk 0, extensions and phonewords
+  const foreign = validator.validate("+1 212 555 0100");
+  const trunk = validator.validate("+44 (0) 20 8099 6910");
+  const withExtension = validator.validate("020 8099 6910 ext. 123");
+  const phoneword = normaliseUkInput("0800 FLOWERS");
+  // Words after a complete number are labels, not more keypad digits
+  const labelled = ["020 8099 6910 Home", "07700 900123 mobile", "016977 2345 work", "0800 FLOWERS now"].map(n => normaliseUkInput(n));
+  const labelsKept = labelled.map(n => n.national).join() !== "02080996910,07700900123,0169772345,08003569377"
+    || labelled.slice(0, 3).some(n => n.transformations.includes(Transformation.PHONEWORD_CONVERTED))
+    || !labelled.every(n => n.transformations.includes(Transformation.FORMATTING_REMOVED));
+  if (foreign.class !== NumberClass.NUMBER_NOT_UK || foreign.countryCode !== "1" || !trunk.valid
+      || !withExtension.valid || withExtension.extension !== "123"
+      || phoneword.national !== "08003569377" || !phoneword.transformations.includes(Transformation.PHONEWORD_CONVERTED)
+      || labelsKept || !validator.validate("020 8099 6910 Home").valid) {
+    logger.error({ foreign, trunk, withExtension, phoneword, labelled }, "✗ normalisation: unexpected handling of international or decorated input");
+    process.exit(1);
+  }
+  logger.info({ foreign, withExtension, phoneword, labelled }, "✓ normalisation: +1 is NUMBER_NOT_UK, (0), ext., phonewords and trailing labels handled");
+  // A porting feed overrides the range holder for the numbers it lists
+  const portingFile = path.join(os.tmpdir(), `porting-${process.pid}.csv`);
+  fs.writeFileSync(portingFile, "number,provider,ported_at\n020 8099 6910,Example Telecom,2024-01-02\nnot a number,Nobody,\n");
+  const porting = await FilePortingSource.load(portingFile);
+  fs.unlinkSync(portingFile);
+  const ported = createValidator({ rules, porting }).validate("02080996910");
+  const notPorted = createValidator({ rules, porting }).validate("02080996911");
+  if (ported.currentProvider !== "Example Telecom" || ported.rangeHolder !== ported.provider || ported.providerSource !== "PORTING"
+      || notPorted.providerSource !== "OFCOM_RANGE" || notPorted.currentProvider !== notPorted.provider || porting.skippedRows !== 1) {
+    logger.error({ ported, notPorted }, "✗ porting: expected the feed to override 02080996910 only");
+    process.exit(1);
+  }
+  logger.info({ ported }, `✓ porting: ${ported.rangeHolder} -> ${ported.currentProvider}`);
+  // Provider spellings that differ only in case, punctuation or "Ltd"/"plc" share one directory entry
+  const providerRules: PrefixRule[] = [
+    { prefix: "0208099", totalLength: 11, status: "Allocated", provider: "BT", source: "S1" },
+    { prefix: "0114496", totalLength: 11, status: "Allocated", provider: "BT", source: "S1" },
+    { prefix: "0800123", totalLength: 11, status: "Allocated", provider: "BT", source: "S8" },
+    { prefix: "0208096", totalLength: 11, status: "Allocated", provider: "BT plc", source: "S1" },
+    { prefix: "0114497", totalLength: 11, status: "Allocated", provider: "bt limited", source: "S1" },
+    { prefix: "074185", totalLength: 11, status: "Allocated", provider: "EE", source: "S7" },
+    { prefix: "0208098", totalLength: 11, status: "Quarantined", provider: "Old CP", source: "S1" },
+  ];
+  const directory = providerDirectory(providerRules);
+  const bt = directory.get("B.T. Ltd");
+  const btRanges = directory.ranges("bt") ?? [];
+  if (!bt || bt.name !== "BT" || bt.aliases.length !== 3 || bt.ranges !== 5 || btRanges.length !== 5
+      || bt.byType[NumberType.GEOGRAPHIC] !== 4 || btRanges[0].prefix !== "0114496" || btRanges[1].provider !== "bt limited"
+      || directory.providers.length !== 2 || directory.get("Old CP") || providerDirectory(providerRules) !== directory) {
+    logger.error({ bt, btRanges }, "✗ providers: expected one BT entry with 5 blocks, 4 of them geographic");
+    process.exit(1);
+  }
+  logger.info({ bt }, `✓ providers: ${directory.providers.length} providers, ${bt.name} holds ${bt.ranges} blocks`);
+  // Reverse lookup lists allocated blocks only, in prefix order, from either index
+  const rangeRules: PrefixRule[] = [
+    { prefix: "0208099", totalLength: 11, status: "Allocated", provider: "BT", source: "S1" },
+    { prefix: "02080991", totalLength: 11, status: "Allocated", provider: "Virgin Media", source: "S1" },
+    { prefix: "0208098", totalLength: 11, status: "Quarantined", provider: "Old CP", source: "S1" },
+    { prefix: "0207946", totalLength: 11, status: "Protected", source: "S1" },
+    { prefix: "0114496", totalLength: 11, status: "Allocated", provider: "BT", source: "S1" },
+    { prefix: "07700900", totalLength: 11, status: "Protected", source: "S7" },
+  ];
+  const rangeTrie = buildIndex(rangeRules);
+  const under020 = Array.from(allocatedBlocks("020", rangeTrie));
+  const everyBlock = JSON.stringify(Array.from(allocatedBlocks("", rangeTrie)));
+  if (under020.map(b => `${b.prefix} ${b.provider} ${b.numberCount}`).join() !== "0208099 BT 10000,02080991 Virgin Media 1000"
+      || JSON.parse(everyBlock).length !== 3
+      || everyBlock !== JSON.stringify(Array.from(allocatedBlocks("", new CompiledIndex(compileIndex(rangeTrie)))))
+      || Array.from(createValidator({ rules: rangeRules }).ranges("07700")).length !== 0) {
+    logger.error({ under020 }, "✗ ranges: expected 0208099 then the block nested in it under 020, the same blocks from both indexes");
+    process.exit(1);
+  }
+  logger.info({ blocks: under020 }, `✓ ranges: ${JSON.parse(everyBlock).length} allocated blocks, ${under020.length} under 020`);
+  assertFormat("02079460000", NumberFormat.E164, "+442079460000");
+  assertFormat("02079460000", NumberFormat.INTERNATIONAL, "+44 20 7946 0000");
+  assertFormat("02079460000", NumberFormat.NATIONAL, "020 7946 0000");
+  assertFormat("01632960123", NumberFormat.NATIONAL, "01632 960123");
+  assertFormat("0169772345", NumberFormat.NATIONAL, "016977 2345");
+  assertFormat("07700900123", NumberFormat.NATIONAL, "07700 900123");
+  assertFormat("08001234567", NumberFormat.NATIONAL, "0800 123 4567");
   logger.info('All basic tests executed.');
   logger.info('For comprehensive performance testing with 10,000 numbers, run: yarn test:performance');
 })();
@@ -0,0 +1,218 @@
+import { ChildProcess, spawn } from "node:child_process";
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+import * as net from "node:net";
+import * as os from "node:os";
+import * as path from "node:path";
+import { isDeepStrictEqual } from "node:util";
+import type { JobState } from "../jobs";
+import { NumberClass } from "../classifyUkNumber";
+import logger from "../logger";
+
+// Offline check of the HTTP service: the built server (dist/server.js) runs in
+// a temp directory holding a copy of prefixes.json, with its own JOBS_DIR
+
+const SERVER = path.resolve(__dirname, "..", "server.js");
+
+function assert(name: string, ok: boolean, details: object) {
+  if (!ok) {
+    logger.error(details, `✗ ${name}`);
+    process.exit(1);
+  }
+  logger.info(details, `✓ ${name}`);
+}
+
+async function freePort(): Promise<number> {
+  const probe = net.createServer();
+  await new Promise<void>(resolve => probe.listen(0, "127.0.0.1", resolve));
+  const { port } = probe.address() as net.AddressInfo;
+  await new Promise(resolve => probe.close(resolve));
+  return port;
+}
+
+// Node 18 cannot require() ES modules; newer releases can be told not to, so an
+// ESM-only dependency on the server's load path fails here as it would there
+const NO_REQUIRE_ESM = process.allowedNodeEnvironmentFlags.has("--no-experimental-require-module")
+  ? ["--no-experimental-require-module"]
+  : [];
+
+async function startService(cwd: string, port: number, extraEnv: NodeJS.ProcessEnv = {}): Promise<ChildProcess> {
+  // No REFRESH_SCHEDULE: the refresher is off, as in most deployments
+  const { REFRESH_SCHEDULE, ADMIN_TOKEN, ...env } = process.env;
+  const child = spawn(process.execPath, [...NO_REQUIRE_ESM, SERVER], {
+    cwd,
+    env: {
+      ...env,
+      ...extraEnv,
+      PORT: String(port),
+      JOBS_DIR: path.join(cwd, "jobs"),
+      MIN_RULE_COUNT: "1",
+      WATCH_RULES: "false",
+      LOG_LEVEL: "warn",
+    },
+    stdio: ["ignore", "ignore", "inherit"],
+  });
+  // A failed assertion exits straight away; do not leave the server behind
+  process.once("exit", () => child.kill());
+  const deadline = Date.now() + 20000;
+  while (Date.now() < deadline) {
+    if (child.exitCode !== null) throw new Error(`Server exited with code ${child.exitCode}`);
+    try {
+      const health = await (await fetch(`http://127.0.0.1:${port}/health`)).json();
+      if (health.ready) return child;
+    } catch {
+      // Not listening yet
+    }
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+  child.kill();
+  throw new Error("Server did not become ready");
+}
+
+async function stopService(child: ChildProcess): Promise<void> {
+  if (child.exitCode !== null) return;
+  const exited = new Promise(resolve => child.once("exit", resolve));
+  child.kill("SIGTERM");
+  await exited;
+}
+
+function ndjson(body: string): any[] {
+  return body.trim().split("\n").map(line => JSON.parse(line));
+}
+
+async function waitForJob(base: string, id: string): Promise<any> {
+  const deadline = Date.now() + 20000;
+  for (;;) {
+    const job = await (await fetch(`${base}/jobs/${id}`)).json();
+    if (job.status === "completed" || job.status === "failed" || Date.now() > deadline) return job;
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+}
+
+const JOB_NUMBERS = ["020 8099 6910", "0114 496 0123", "000", "07700 900123", "0800 123 4567", "+1 212 555 0100", "0208098 1234"];
+const JOB_INPUT = JOB_NUMBERS.map(number => JSON.stringify({ number })).join("\n") + "\nnot json\n";
+
+(async function main() {
+  const rulesPath = path.resolve(process.cwd(), "prefixes.json");
+  if (!fs.existsSync(rulesPath) || !fs.existsSync(SERVER)) {
+    logger.error("prefixes.json and dist/server.js are required. Run 'npm run build:all' first.");
+    process.exit(2);
+  }
+
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "uk-number-service-"));
+  fs.copyFileSync(rulesPath, path.join(tmp, "prefixes.json"));
+  const port = await freePort();
+  const base = `http://127.0.0.1:${port}`;
+  let server = await startService(tmp, port);
+  assert("server loads without REFRESH_SCHEDULE and without require() of ES modules", true, { flags: NO_REQUIRE_ESM });
+
+  try {
+    const post = (url: string, type: string, body: string) =>
+      fetch(base + url, { method: "POST", headers: { "content-type": type }, body });
+
+    // Bad NDJSON lines are answered inline, in input order, and the rest still classified
+    let res = await post("/validate/bulk", "application/x-ndjson",
+      '"020 8099 6910"\n{"number":"000"}\nnot json\n{"phone":"020 8099 6910"}\n\n42\n');
+    const lines = ndjson(await res.text());
+    assert("bulk ndjson: bad lines get inline errors", res.status === 200
+      && lines.map(l => l.line).join() === "1,2,3,4,6"
+      && lines[0].result?.class === NumberClass.NUMBER_VALID
+      && lines[1].result?.class === NumberClass.NUMBER_INVALID && lines[1].input?.number === "000"
+      && lines[2].error === "Invalid JSON"
+      && lines[3].error === 'Expected a string or an object with a string "number" field' && !lines[3].result
+      && lines[4].error === lines[3].error, { lines });
+
+    res = await post("/validate/bulk?column=phone", "text/csv", "name,phone\nAlice,020 8099 6910\nCarol,07700 900123\n");
+    const rows = ndjson(await res.text());
+    assert("bulk csv: ?column= picks the number column and echoes the row", res.status === 200 && rows.length === 2
+      && rows[0].input?.name === "Alice" && rows[0].number === "020 8099 6910" && rows[0].result?.class === NumberClass.NUMBER_VALID
+      && rows[1].input?.name === "Carol" && rows[1].result?.class === NumberClass.NUMBER_PROTECTED, { rows });
+
+    res = await post("/validate/bulk?column=mobile", "text/csv", "name,phone\nAlice,020 8099 6910\n");
+    const missing = await res.json();
+    assert("bulk csv: a missing column is a 400, not a line per row", res.status === 400
+      && missing.message.startsWith('Column "mobile" not found in the CSV header'), { status: res.status, missing });
+
+    res = await post("/validate/bulk", "application/json", "[]");
+    assert("bulk: unsupported content type is a 415", res.status === 415, { status: res.status });
+
+    // Without ADMIN_TOKEN nobody can swap the dataset
+    res = await fetch(`${base}/admin/reload`, { method: "POST" });
+    assert("admin: disabled without ADMIN_TOKEN", res.status === 403, { status: res.status });
+
+    // Jobs: queued, then completed by the worker, then the result
+    res = await post("/jobs", "application/x-ndjson", JOB_INPUT);
+    const queued = await res.json();
+    assert("jobs: upload is queued", res.status === 202 && queued.status === "queued"
+      && res.headers.get("location") === `/jobs/${queued.id}`, { status: res.status, queued });
+
+    const done = await waitForJob(base, queued.id);
+    assert("jobs: job completes", done.status === "completed" && done.processed === JOB_NUMBERS.length + 1
+      && done.errors === 1 && done.progress === 1 && done.counts[NumberClass.NUMBER_VALID] === 3, { done });
+
+    res = await fetch(`${base}/jobs/${queued.id}/result`);
+    const resultBody = await res.text();
+    const results = ndjson(resultBody);
+    const streamed = await (await post("/validate/bulk", "application/x-ndjson", JOB_INPUT)).text();
+    assert("jobs: result is what /validate/bulk returns for the same upload", res.status === 200
+      && res.headers.get("content-type")?.startsWith("application/x-ndjson") === true && resultBody === streamed, { results });
+
+    const mismatches: object[] = [];
+    for (let i = 0; i < JOB_NUMBERS.length; i++) {
+      const { line, input, ...jobEntry } = results[i];
+      const { ported, ...single } = await (await fetch(`${base}/validate?number=${encodeURIComponent(JOB_NUMBERS[i])}`)).json();
+      if (line !== i + 1 || !isDeepStrictEqual(jobEntry, single)) mismatches.push({ number: JOB_NUMBERS[i], jobEntry, single });
+    }
+    assert("jobs: each result line matches /validate exactly", mismatches.length === 0
+      && results[JOB_NUMBERS.length].error === "Invalid JSON", { mismatches });
+
+    res = await fetch(`${base}/jobs/${crypto.randomUUID()}/result`);
+    assert("jobs: unknown job is a 404", res.status === 404, { status: res.status });
+
+    // A completed job whose result has gone is a 500, and the service stays up
+    const jobsDir = path.join(tmp, "jobs");
+    fs.renameSync(path.join(jobsDir, queued.id, "result.ndjson"), path.join(tmp, "result.ndjson"));
+    res = await fetch(`${base}/jobs/${queued.id}/result`);
+    const health = await fetch(`${base}/health`);
+    assert("jobs: missing result is a 500 and the service stays up", res.status === 500 && health.status === 200,
+      { status: res.status, health: health.status });
+
+    // A job still queued when the service stopped is run after a restart
+    await stopService(server);
+    const resumedId = crypto.randomUUID();
+    fs.mkdirSync(path.join(jobsDir, resumedId));
+    fs.writeFileSync(path.join(jobsDir, resumedId, "input"), JOB_INPUT);
+    const left: JobState = {
+      id: resumedId,
+      status: "queued",
+      format: "ndjson",
+      column: "number",
+      inputBytes: Buffer.byteLength(JOB_INPUT),
+      createdAt: new Date().toISOString(),
+      processed: 0,
+      errors: 0,
+      bytesRead: 0,
+      counts: {},
+    };
+    fs.writeFileSync(path.join(jobsDir, resumedId, "job.json"), JSON.stringify(left, null, 2));
+    server = await startService(tmp, port, { ADMIN_TOKEN: "test-token" });
+
+    const resumed = await waitForJob(base, resumedId);
+    const resumedBody = await (await fetch(`${base}/jobs/${resumedId}/result`)).text();
+    assert("jobs: queued job resumes after a restart", resumed.status === "completed"
+      && resumed.processed === JOB_NUMBERS.length + 1 && resumedBody === resultBody, { resumed });
+
+    res = await fetch(`${base}/admin/reload`, { method: "POST" });
+    const reload = await fetch(`${base}/admin/reload`, { method: "POST", headers: { authorization: "Bearer test-token" } });
+    assert("admin: ADMIN_TOKEN required once set", res.status === 401 && reload.status === 200,
+      { status: res.status, withToken: reload.status });
+
+    logger.info("All service tests executed.");
+  } finally {
+    await stopService(server);
+    fs.rmSync(tmp, { recursive: true, force: true });
+  }
+})().catch(error => {
+  logger.error({ error }, "Service test crashed");
+  process.exit(1);
+});